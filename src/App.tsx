@@ -3,7 +3,8 @@ import {
   LayoutDashboard, 
   Send, 
   Lock, 
-  BookUser
+  BookUser,
+  Inbox
 } from 'lucide-react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { SuiClientProvider, WalletProvider, ConnectButton, useCurrentAccount } from '@mysten/dapp-kit';
@@ -21,6 +22,11 @@ import { BatchCreate } from './components/BatchCreate';
 import { EscrowCreate } from './components/EscrowCreate';
 import { ApprovalPage } from './components/ApprovalPage';
 import { AddressBook } from './components/AddressBook';
+import { ConnectPrompt } from './components/ConnectPrompt';
+import { IncomingEscrows } from './components/IncomingEscrows';
+import { Toaster } from './ui/sonner';
+import { useRoute } from './hooks/useRoute';
+import type { View } from './lib/routes';
 
 // --- Config ---
 const networks = {
@@ -29,8 +35,6 @@ const networks = {
 };
 const queryClient = new QueryClient();
 
-type View = 'landing' | 'dashboard' | 'batch-create' | 'escrow-create' | 'approval' | 'address-book';
-
 // --- Navbar Component (İsterseniz bunu da ayrı dosyaya alabilirsiniz: src/components/Navbar.tsx) ---
 interface NavbarProps {
   currentView: View;
@@ -41,6 +45,7 @@ interface NavbarProps {
 function Navbar({ currentView, setCurrentView, walletConnected }: NavbarProps) {
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { id: 'incoming', label: 'Incoming', icon: Inbox },
     { id: 'batch-create', label: 'Create Batch', icon: Send },
     { id: 'escrow-create', label: 'Create Escrow', icon: Lock },
     { id: 'address-book', label: 'Address Book', icon: BookUser },
@@ -93,19 +98,18 @@ function Navbar({ currentView, setCurrentView, walletConnected }: NavbarProps) {
 // --- Main Content ---
 function AppContent() {
   const currentAccount = useCurrentAccount();
-  const [currentView, setCurrentView] = useState<View>('landing');
-  const [selectedEscrowId, setSelectedEscrowId] = useState<string>('');
+  const { route, navigate } = useRoute();
+  const currentView = route.view;
+  const setCurrentView = (view: View) => navigate({ view });
   const [selectedContact, setSelectedContact] = useState<{ address: string; name: string } | null>(null);
   const walletConnected = !!currentAccount;
   const walletAddress = currentAccount?.address || '';
 
   useEffect(() => {
     if (walletConnected && currentView === 'landing') {
-      setCurrentView('dashboard');
-    } else if (!walletConnected) {
-      setCurrentView('landing');
+      navigate({ view: 'dashboard' }, { replace: true });
     }
-  }, [walletConnected]);
+  }, [walletConnected, currentView, navigate]);
 
   return (
     <div className="min-h-screen bg-[#1a2332] text-gray-100 font-sans selection:bg-cyan-500/30 selection:text-cyan-50 overflow-x-hidden">
@@ -117,7 +121,10 @@ function AppContent() {
       <Navbar currentView={currentView} setCurrentView={setCurrentView} walletConnected={walletConnected} />
 
       <main className="relative z-10 container mx-auto px-4 py-8 lg:px-6 lg:py-10">
-        {!walletConnected ? (
+        {!walletConnected && route.view === 'approval' && route.escrowId ? (
+          // Paylaşılan claim linki: önce cüzdan bağlansın, sonra ApprovalPage açılır
+          <ConnectPrompt escrowId={route.escrowId} />
+        ) : !walletConnected ? (
           // Connect Logic WalletProvider tarafından yönetildiği için boş fonksiyon geçilebilir
           <LandingPage onConnect={() => {}} /> 
         ) : (
@@ -128,10 +135,13 @@ function AppContent() {
                 key={walletAddress}
                 walletConnected={walletConnected} 
                 walletAddress={walletAddress}
-                onViewEscrow={(escrowId: string) => {
-                  setSelectedEscrowId(escrowId);
-                  setCurrentView('approval');
-                }}
+                onViewEscrow={(escrowId: string) => navigate({ view: 'approval', escrowId })}
+              />
+            )}
+            {currentView === 'incoming' && (
+              <IncomingEscrows
+                walletAddress={walletAddress}
+                onViewEscrow={(escrowId: string) => navigate({ view: 'approval', escrowId })}
               />
             )}
             {currentView === 'batch-create' && (
@@ -145,9 +155,10 @@ function AppContent() {
                 prefilledReceiver={selectedContact?.address || ''}
               />
             )}
-            {currentView === 'approval' && selectedEscrowId && (
+            {currentView === 'approval' && route.escrowId && (
               <ApprovalPage 
-                escrowId={selectedEscrowId}
+                key={route.escrowId}
+                escrowId={route.escrowId}
                 walletAddress={walletAddress}
                 onBack={() => setCurrentView('dashboard')}
               />
@@ -163,6 +174,9 @@ function AppContent() {
           </div>
         )}
       </main>
+
+      {/* Live activity updates from the Dashboard */}
+      <Toaster theme="dark" position="bottom-right" />
     </div>
   );
 }
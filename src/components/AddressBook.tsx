@@ -1,7 +1,14 @@
 import { useState } from 'react';
-import { TokenSelector, type TokenType } from './TokenSelector';
+import { TokenSelector } from './TokenSelector';
+import { TransactionReview } from './TransactionReview';
 import { Transaction } from '@mysten/sui/transactions';
-import { useSignAndExecuteTransaction, useSuiClient, useCurrentAccount } from '@mysten/dapp-kit';
+import { useSuiClient, useCurrentAccount } from '@mysten/dapp-kit';
+import { getCoinInfo, isSuiCoinType, SUI_COIN_TYPE } from '../lib/coinRegistry';
+import { getAmountError, parseAmount, tryParseAmount } from '../lib/amount';
+import { useCoinInfo } from '../hooks/useCoinInfo';
+import { useBalanceCheck } from '../hooks/useBalanceCheck';
+import { useSendTokens } from '../hooks/useTransactionMutations';
+import { loadContacts, storeContacts, type Contact } from '../lib/contacts';
 import { 
   UserPlus, 
   Users, 
@@ -18,39 +25,38 @@ import {
   Loader2
 } from 'lucide-react';
 
-interface Contact {
-  id: string;
-  name: string;
-  address: string;
-  note?: string;
-  createdAt: string;
-}
-
 interface AddressBookProps {
   onSendToContact: (contact: Contact, type: 'batch' | 'escrow') => void;
 }
 
 export function AddressBook({ onSendToContact }: AddressBookProps) {
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutate: signAndExecute } = useSendTokens();
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
   const walletAddress = currentAccount?.address || '';
   
-  const [contacts, setContacts] = useState<Contact[]>(() => {
-    const saved = localStorage.getItem('sui-proto-contacts');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [contacts, setContacts] = useState<Contact[]>(loadContacts);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [sendModalOpen, setSendModalOpen] = useState(false);
   const [selectedContactForSend, setSelectedContactForSend] = useState<Contact | null>(null);
   const [sendAmount, setSendAmount] = useState('');
-  const [sendToken, setSendToken] = useState<TokenType>('SUI');
+  const [sendCoinType, setSendCoinType] = useState(SUI_COIN_TYPE);
   const [isSending, setIsSending] = useState(false);
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const contactsPerPage = 4;
 
+  const { data: sendCoinInfo } = useCoinInfo(sendCoinType);
+  const sendAmountError = sendAmount && sendCoinInfo ? getAmountError(sendAmount, sendCoinInfo.decimals) : null;
+  const sendAmountBaseUnits = sendCoinInfo ? tryParseAmount(sendAmount, sendCoinInfo.decimals) : null;
+  const { shortfall: sendShortfall } = useBalanceCheck(
+    walletAddress,
+    sendCoinInfo,
+    sendModalOpen ? sendAmountBaseUnits : null
+  );
+
   const [formData, setFormData] = useState({
     name: '',
     address: '',
@@ -59,7 +65,7 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
 
   const saveContacts = (newContacts: Contact[]) => {
     setContacts(newContacts);
-    localStorage.setItem('sui-proto-contacts', JSON.stringify(newContacts));
+    storeContacts(newContacts);
   };
 
   const handleAddContact = () => {
@@ -122,7 +128,7 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
   const handleOpenSendModal = (contact: Contact) => {
     setSelectedContactForSend(contact);
     setSendAmount('');
-    setSendToken('SUI');
+    setSendCoinType(SUI_COIN_TYPE);
     setSendModalOpen(true);
   };
 
@@ -140,27 +146,21 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
     try {
       const txb = new Transaction();
       
-      // Determine coin type
-      let coinType = '0x2::sui::SUI';
-      let decimals = 9;
-      
-      if (sendToken === 'USDC') {
-        coinType = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
-        decimals = 6;
-      }
+      const coinType = sendCoinType;
+      const { decimals, symbol } = await getCoinInfo(suiClient, coinType);
       
       // Convert amount to smallest unit
-      const amountInSmallestUnit = BigInt(Math.floor(parseFloat(sendAmount) * Math.pow(10, decimals)));
+      const amountInSmallestUnit = parseAmount(sendAmount, decimals);
       
       // Get coins
       const coins = await suiClient.getCoins({ owner: walletAddress, coinType });
       if (coins.data.length === 0) {
-        throw new Error(`No ${sendToken} coins found in wallet`);
+        throw new Error(`No ${symbol} coins found in wallet`);
       }
       
       let coinToSend;
       
-      if (coinType === '0x2::sui::SUI') {
+      if (isSuiCoinType(coinType)) {
         // For SUI, split from gas
         [coinToSend] = txb.splitCoins(txb.gas, [amountInSmallestUnit]);
       } else {
@@ -175,22 +175,8 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
       // Transfer to recipient
       txb.transferObjects([coinToSend], selectedContactForSend.address);
       
-      signAndExecute(
-        { transaction: txb },
-        {
-          onSuccess: (result) => {
-            console.log('Payment sent:', result);
-            alert(`Successfully sent ${sendAmount} ${sendToken} to ${selectedContactForSend.name}!`);
-            handleCloseSendModal();
-            setIsSending(false);
-          },
-          onError: (err) => {
-            console.error(err);
-            alert('Failed to send payment: ' + err.message);
-            setIsSending(false);
-          }
-        }
-      );
+      // Dry-run and review before the wallet is asked to sign
+      setPendingTransaction(txb);
       
     } catch (error: any) {
       console.error(error);
@@ -199,6 +185,34 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
     }
   };
 
+  const signPayment = () => {
+    if (!pendingTransaction || !selectedContactForSend) return;
+    const txb = pendingTransaction;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      { transaction: txb },
+      {
+        onSuccess: (result) => {
+          console.log('Payment sent:', result);
+          alert(`Successfully sent ${sendAmount} ${sendCoinInfo?.symbol} to ${selectedContactForSend.name}!`);
+          handleCloseSendModal();
+          setIsSending(false);
+        },
+        onError: (err) => {
+          console.error(err);
+          alert('Failed to send payment: ' + err.message);
+          setIsSending(false);
+        }
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setIsSending(false);
+  };
+
   const filteredContacts = contacts.filter(contact => 
     contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     contact.address.toLowerCase().includes(searchQuery.toLowerCase())
@@ -465,21 +479,26 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
               {/* Token Selector */}
               <div>
                 <label className="block text-xs font-medium text-slate-400 mb-2">Token</label>
-                <TokenSelector value={sendToken} onChange={setSendToken} />
+                <TokenSelector value={sendCoinType} onChange={setSendCoinType} />
               </div>
 
               {/* Amount */}
               <div>
                 <label className="block text-xs font-medium text-slate-400 mb-2">Amount</label>
                 <input
-                  type="number"
+                  type="text"
+                  inputMode="decimal"
                   value={sendAmount}
                   onChange={(e) => setSendAmount(e.target.value)}
                   placeholder="0.00"
                   className="w-full px-4 py-3 text-lg rounded-xl border-2 border-slate-700/60 bg-slate-700/50 text-white placeholder-gray-400 focus:border-cyan-500 focus:ring-2 focus:ring-cyan-500/20 transition-all"
-                  step="0.01"
-                  min="0"
                 />
+                {sendAmountError && (
+                  <p className="text-xs text-red-400 mt-1.5">{sendAmountError}</p>
+                )}
+                {!sendAmountError && sendShortfall && (
+                  <p className="text-xs text-red-400 mt-1.5">{sendShortfall}</p>
+                )}
               </div>
 
               {/* Action Buttons */}
@@ -492,7 +511,7 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
                 </button>
                 <button
                   onClick={handleSendTransaction}
-                  disabled={!sendAmount || parseFloat(sendAmount) <= 0 || isSending}
+                  disabled={!sendAmountBaseUnits || !!sendShortfall || isSending}
                   className="flex-1 py-2.5 bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-medium rounded-xl hover:from-cyan-600 hover:to-blue-600 disabled:from-slate-700 disabled:to-slate-700 disabled:text-slate-500 transition-all flex items-center justify-center gap-2 shadow-lg shadow-cyan-500/20"
                 >
                   {isSending ? (
@@ -512,6 +531,15 @@ export function AddressBook({ onSendToContact }: AddressBookProps) {
           </div>
         </div>
       )}
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title="Review Payment"
+        confirmLabel="Sign & Send"
+        onConfirm={signPayment}
+        onCancel={cancelReview}
+      />
     </div>
   );
 }
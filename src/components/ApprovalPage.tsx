@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -11,29 +12,124 @@ import {
   ExternalLink,
   ArrowLeft,
   AlertTriangle,
-  Copy
+  Copy,
+  Undo2,
+  Hourglass,
+  Scale
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Transaction } from '@mysten/sui/transactions';
-import { useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
-
-interface EscrowDetails {
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { SuiClient } from '@mysten/sui/client';
+import { formatAmount } from '../lib/amount';
+import { coinSymbolFromType, getCoinInfo } from '../lib/coinRegistry';
+import type { EscrowLookup } from '../lib/escrowQuery';
+import {
+  buildArbiterSettlementTransaction,
+  buildCancelEscrowTransaction,
+  buildClaimEscrowTransaction,
+  formatTimeRemaining,
+  getArbiterActions,
+  getCancelBlockedReason,
+  isEscrowExpired,
+  type ArbiterAction,
+  type EscrowRef,
+} from '../lib/escrow';
+import { TransactionReview } from './TransactionReview';
+import { NftPreviewCard } from './NftPreviewCard';
+import { MilestoneEscrowView } from './MilestoneEscrowView';
+import { useCoinInfo } from '../hooks/useCoinInfo';
+import { useBalanceCheck } from '../hooks/useBalanceCheck';
+import { useEscrow } from '../hooks/useEscrow';
+import { useCancelEscrow, useClaimEscrow } from '../hooks/useTransactionMutations';
+
+// One locked asset; a bundle agreement holds several, each in its own escrow object
+interface EscrowAsset {
   id: string;
   assetType: string;
   fullAssetType: string;
+  amount: string;
+  isNft: boolean;
+  nftId?: string;
+  /** Price of this escrow in base units of the payment token. */
+  rawPrice: string;
+}
+
+interface EscrowDetails {
+  id: string;
+  assets: EscrowAsset[];
   paymentType: string;
   fullPaymentType: string;
-  amount: string;
+  /** Total price of all assets, formatted and in base units. */
   price: string;
   rawPrice: string;
   sender: string;
   receiver: string;
   condition: string;
+  /** Settles the escrow for arbiter escrows; see `getArbiterActions`. */
+  arbiter?: string;
   unlockTime: number;
+  /** Unix ms after which the creator may reclaim; 0 for no expiry. */
+  expiryTime: number;
   createdAt: string;
-  nftId?: string;
 }
 
+// Formats an open escrow and its bundle with their coins' metadata
+async function loadEscrowDetails(
+  client: SuiClient,
+  { record, bundle }: Extract<EscrowLookup, { state: 'active' }>
+): Promise<EscrowDetails> {
+  const assets = await Promise.all(bundle.map(async (item): Promise<EscrowAsset> => {
+    // Asset metadata only exists for coins; NFTs are always a single object
+    const assetInfo = item.isNft ? undefined : await getCoinInfo(client, item.assetType);
+    return {
+      id: item.id,
+      assetType: assetInfo?.symbol || coinSymbolFromType(item.assetType),
+      fullAssetType: item.assetType,
+      amount: assetInfo ? formatAmount(item.amount, assetInfo.decimals, { maxFractionDigits: 4 }) : '1',
+      isNft: item.isNft,
+      nftId: item.nftId,
+      rawPrice: item.price,
+    };
+  }));
+  const paymentInfo = await getCoinInfo(client, record.paymentType);
+  const totalPrice = bundle.reduce((sum, item) => sum + BigInt(item.price), 0n);
+
+  return {
+    id: record.id,
+    assets,
+    paymentType: paymentInfo.symbol,
+    fullPaymentType: record.paymentType,
+    price: formatAmount(totalPrice, paymentInfo.decimals, { maxFractionDigits: 4 }),
+    rawPrice: totalPrice.toString(),
+    sender: record.creator,
+    receiver: record.recipient,
+    condition: record.arbiter ? 'Arbiter' : record.unlockTime > 0 ? 'Time-Lock' : 'Recipient Approval',
+    arbiter: record.arbiter,
+    unlockTime: record.unlockTime,
+    expiryTime: record.expiryTime,
+    createdAt: record.createdAt ? new Date(record.createdAt).toISOString() : '',
+  };
+}
+
+const describeAsset = (asset: EscrowAsset) =>
+  asset.isNft ? `the ${asset.assetType} NFT` : `${asset.amount} $${asset.assetType}`;
+
+const toEscrowRef = (escrow: EscrowDetails, asset: EscrowAsset): EscrowRef => ({
+  id: asset.id,
+  assetType: asset.fullAssetType,
+  paymentType: escrow.fullPaymentType,
+  isNft: asset.isNft,
+  unlockTime: escrow.unlockTime,
+  expiryTime: escrow.expiryTime,
+  arbiter: escrow.arbiter,
+});
+
+const ARBITER_ACTION_LABELS: Record<ArbiterAction, { button: string; review: string; done: string }> = {
+  release: { button: 'Release to Receiver', review: 'Review Release', done: 'Escrow Released to Receiver' },
+  refund: { button: 'Refund to Creator', review: 'Review Refund', done: 'Escrow Refunded to Creator' },
+};
+
 interface ApprovalPageProps {
   escrowId: string;
   walletAddress: string;
@@ -42,96 +138,45 @@ interface ApprovalPageProps {
 
 export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPageProps) {
   const suiClient = useSuiClient();
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutate: signAndExecute } = useClaimEscrow();
+  const { mutate: signAndExecuteCancel } = useCancelEscrow();
   const [isApproving, setIsApproving] = useState(false);
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+  const [pendingAction, setPendingAction] = useState<'claim' | 'cancel' | ArbiterAction>('claim');
   const [approved, setApproved] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const [settled, setSettled] = useState<ArbiterAction | null>(null);
   const [transactionDigest, setTransactionDigest] = useState('');
-  const [escrow, setEscrow] = useState<EscrowDetails | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [completedEscrow, setCompletedEscrow] = useState<EscrowDetails | null>(null);
   const [error, setError] = useState<string>('');
-  
-  const packageId = import.meta.env.VITE_PACKAGE_ID;
 
-  useEffect(() => {
-    const fetchEscrowDetails = async () => {
-      if (!escrowId || !packageId) return;
-
-      setIsLoading(true);
-      try {
-        // Query events directly from the module to find the specific escrow
-        const moduleEvents = await suiClient.queryEvents({
-          query: { MoveEventModule: { package: packageId, module: 'escrow' } },
-          order: "descending",
-          limit: 50,
-        });
-
-        let foundEvent = null;
-        let isNft = false;
-
-        // Search for the event matching our escrowId
-        for (const event of moduleEvents.data) {
-          const data = event.parsedJson as any;
-          if (data.escrow_id === escrowId) {
-            foundEvent = event;
-            isNft = event.type.includes('NftLockEvent');
-            break;
-          }
-        }
-
-        if (foundEvent) {
-          const data = foundEvent.parsedJson as any;
-          
-          // Extract types
-          const typeMatch = foundEvent.type.match(/<([^,]+),\s*([^>]+)>/);
-          const assetTypeFull = typeMatch ? typeMatch[1] : 'Unknown';
-          const paymentTypeFull = typeMatch ? typeMatch[2] : 'Unknown';
-          
-          const assetSymbol = assetTypeFull.split('::').pop() || 'Unknown';
-          const paymentSymbol = paymentTypeFull.split('::').pop() || 'Unknown';
-          
-          let decimals = 9;
-          if (assetSymbol === 'USDC') decimals = 6;
-          
-          let amount = '1';
-          if (!isNft) {
-             amount = (Number(data.amount) / Math.pow(10, decimals)).toLocaleString(undefined, {
-                maximumFractionDigits: 4
-              });
-          }
-
-          const price = (Number(data.price) / Math.pow(10, 9)).toLocaleString(undefined, {
-            maximumFractionDigits: 4
-          });
-
-          setEscrow({
-            id: data.escrow_id,
-            assetType: assetSymbol,
-            fullAssetType: assetTypeFull,
-            paymentType: paymentSymbol,
-            fullPaymentType: paymentTypeFull,
-            amount,
-            price,
-            rawPrice: data.price,
-            sender: data.creator,
-            receiver: data.recipient,
-            condition: Number(data.unlock_time) > 0 ? 'Time-Lock' : 'Recipient Approval',
-            unlockTime: Number(data.unlock_time),
-            createdAt: new Date(Number(foundEvent.timestampMs)).toISOString(),
-            nftId: isNft ? data.nft_id : undefined
-          });
-        } else {
-          setError('Escrow details not found. It may have been claimed or is too old.');
-        }
-      } catch (err) {
-        console.error("Error fetching escrow details:", err);
-        setError('Failed to load escrow details.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
 
-    fetchEscrowDetails();
-  }, [escrowId, packageId, suiClient]);
+  const lookup = useEscrow(escrowId);
+  const activeLookup = lookup.data?.state === 'active' ? lookup.data : null;
+  const details = useQuery({
+    queryKey: ['escrow-details', activeLookup],
+    queryFn: () => loadEscrowDetails(suiClient, activeLookup!),
+    enabled: !!activeLookup,
+  });
+  // Once claimed, cancelled or settled here, the escrow stays on screen as it was while its queries refetch
+  const escrow = completedEscrow ?? details.data ?? null;
+  const isLoading = lookup.isLoading || details.isLoading;
+  const loadError = lookup.error ?? details.error;
+  const milestoneEscrow = lookup.data?.state === 'milestone' ? lookup.data.escrow : null;
+  const closedEscrow = lookup.data && lookup.data.state !== 'active' && lookup.data.state !== 'milestone'
+    ? lookup.data
+    : null;
+
+  // Priced escrows are swaps: the claimer must hold the price in the payment token
+  const { data: paymentInfo } = useCoinInfo(escrow?.fullPaymentType);
+  const priceBaseUnits = escrow ? BigInt(escrow.rawPrice) : 0n;
+  const isReceiver = !!escrow && escrow.receiver.toLowerCase() === walletAddress.toLowerCase();
+  const { shortfall } = useBalanceCheck(
+    walletAddress,
+    paymentInfo,
+    isReceiver && priceBaseUnits > 0n ? priceBaseUnits : null
+  );
 
   const handleApprove = async () => {
     if (!escrow || !packageId) return;
@@ -140,83 +185,17 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
     setError('');
     
     try {
-      const txb = new Transaction();
-      
-      // Use the full types captured from the event
-      const coinType = escrow.fullAssetType;
-      const paymentCoinType = escrow.fullPaymentType;
-      
-      let paymentCoin;
-      const price = BigInt(escrow.rawPrice);
-
-      if (paymentCoinType === '0x2::sui::SUI') {
-        // For SUI payments, split from gas
-        const [coin] = txb.splitCoins(txb.gas, [txb.pure.u64(price)]);
-        paymentCoin = coin;
-      } else {
-        // For other tokens, get coins, merge if needed, then split
-        const paymentCoins = await suiClient.getCoins({
-          owner: walletAddress,
-          coinType: paymentCoinType,
-        });
-
-        if (!paymentCoins.data || paymentCoins.data.length === 0) {
-          throw new Error(`No ${escrow.paymentType} coins found in wallet`);
-        }
-
-        const primaryCoin = txb.object(paymentCoins.data[0].coinObjectId);
-        
-        if (paymentCoins.data.length > 1) {
-          txb.mergeCoins(primaryCoin, paymentCoins.data.slice(1).map(c => txb.object(c.coinObjectId)));
-        }
-
-        const [coin] = txb.splitCoins(primaryCoin, [txb.pure.u64(price)]);
-        paymentCoin = coin;
-      }
-      
-      // Determine if we are claiming a Coin or an NFT
-      if (escrow.nftId) {
-        // Claim NFT
-        txb.moveCall({
-          target: `${packageId}::escrow::claim_nft`,
-          typeArguments: [coinType, paymentCoinType],
-          arguments: [
-            txb.object(escrow.id), // escrow object
-            paymentCoin, // payment coin
-            txb.object('0x6'), // Sui system clock
-          ],
-        });
-      } else {
-        // Claim Coin
-        txb.moveCall({
-          target: `${packageId}::escrow::claim_coin`,
-          typeArguments: [coinType, paymentCoinType],
-          arguments: [
-            txb.object(escrow.id), // escrow object
-            paymentCoin, // payment coin
-            txb.object('0x6'), // Sui system clock
-          ],
-        });
-      }
-      
-      signAndExecute(
-        {
-          transaction: txb,
-        },
-        {
-          onSuccess: (result) => {
-            console.log('Claim transaction successful:', result);
-            setTransactionDigest(result.digest);
-            setApproved(true);
-            setIsApproving(false);
-          },
-          onError: (error) => {
-            console.error('Claim transaction failed:', error);
-            setError(`Transaction failed: ${error.message}`);
-            setIsApproving(false);
-          },
-        }
+      // Every escrow of a bundle is claimed in the same transaction
+      const txb = await buildClaimEscrowTransaction(
+        suiClient,
+        packageId,
+        walletAddress,
+        escrow.assets.map((asset) => ({ ...toEscrowRef(escrow, asset), price: BigInt(asset.rawPrice) }))
       );
+      
+      // Dry-run and review before the wallet is asked to sign
+      setPendingAction('claim');
+      setPendingTransaction(txb);
     } catch (err: any) {
       console.error('Error preparing claim transaction:', err);
       setError(err.message || 'Failed to prepare transaction');
@@ -224,6 +203,122 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
     }
   };
 
+  const signClaim = () => {
+    if (!pendingTransaction) return;
+    const txb = pendingTransaction;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      {
+        transaction: txb,
+      },
+      {
+        onSuccess: (result) => {
+          console.log('Claim transaction successful:', result);
+          setTransactionDigest(result.digest);
+          setCompletedEscrow(escrow);
+          setApproved(true);
+          setIsApproving(false);
+        },
+        onError: (error) => {
+          console.error('Claim transaction failed:', error);
+          setError(`Transaction failed: ${error.message}`);
+          setIsApproving(false);
+        },
+      }
+    );
+  };
+
+  const handleCancel = () => {
+    if (!escrow || !packageId) return;
+
+    const blocked = getCancelBlockedReason(escrow);
+    if (blocked) {
+      setError(blocked);
+      return;
+    }
+
+    setIsApproving(true);
+    setError('');
+    setPendingAction('cancel');
+    setPendingTransaction(buildCancelEscrowTransaction(
+      packageId,
+      escrow.assets.map((asset) => toEscrowRef(escrow, asset))
+    ));
+  };
+
+  const signCancel = () => {
+    if (!pendingTransaction) return;
+    const txb = pendingTransaction;
+    setPendingTransaction(null);
+
+    signAndExecuteCancel(
+      {
+        transaction: txb,
+      },
+      {
+        onSuccess: (result) => {
+          console.log('Cancel transaction successful:', result);
+          setTransactionDigest(result.digest);
+          setCompletedEscrow(escrow);
+          setCancelled(true);
+          setIsApproving(false);
+        },
+        onError: (error) => {
+          console.error('Cancel transaction failed:', error);
+          setError(`Transaction failed: ${error.message}`);
+          setIsApproving(false);
+        },
+      }
+    );
+  };
+
+  const handleSettle = (action: ArbiterAction) => {
+    if (!escrow || !packageId) return;
+
+    setIsApproving(true);
+    setError('');
+    setPendingAction(action);
+    // Dry-run and review before the wallet is asked to sign
+    setPendingTransaction(buildArbiterSettlementTransaction(
+      packageId,
+      escrow.assets.map((asset) => toEscrowRef(escrow, asset)),
+      action
+    ));
+  };
+
+  const signSettle = () => {
+    if (!pendingTransaction || (pendingAction !== 'release' && pendingAction !== 'refund')) return;
+    const txb = pendingTransaction;
+    const action = pendingAction;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      {
+        transaction: txb,
+      },
+      {
+        onSuccess: (result) => {
+          console.log(`Arbiter ${action} successful:`, result);
+          setTransactionDigest(result.digest);
+          setCompletedEscrow(escrow);
+          setSettled(action);
+          setIsApproving(false);
+        },
+        onError: (error) => {
+          console.error(`Arbiter ${action} failed:`, error);
+          setError(`Transaction failed: ${error.message}`);
+          setIsApproving(false);
+        },
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setIsApproving(false);
+  };
+
   const copyAddress = (address: string) => {
     navigator.clipboard.writeText(address);
   };
@@ -232,7 +327,7 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
     window.open(`https://suiexplorer.com/object/${objectId}`, '_blank');
   };
 
-  if (approved && escrow) {
+  if ((approved || cancelled || settled) && escrow) {
     return (
       <div className="mx-auto max-w-2xl">
         <Card className="border-emerald-500/30 bg-slate-900 shadow-lg shadow-emerald-500/20">
@@ -248,10 +343,14 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
               </motion.div>
             </div>
             <CardTitle className="text-center text-2xl text-emerald-400">
-              Funds Released Successfully
+              {settled ? ARBITER_ACTION_LABELS[settled].done : cancelled ? 'Escrow Cancelled' : 'Funds Released Successfully'}
             </CardTitle>
             <CardDescription className="text-center text-slate-300">
-              The escrow has been completed and assets transferred to your wallet
+              {settled === 'release' && 'The escrow has been settled and the assets sent to the receiver'}
+              {settled === 'refund' && 'The escrow has been settled and the assets returned to the creator'}
+              {!settled && (cancelled
+                ? 'The escrow has been closed and the locked assets refunded to your wallet'
+                : 'The escrow has been completed and assets transferred to your wallet')}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -260,7 +359,11 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
               <AlertDescription className="text-sm text-slate-200">
                 <div className="mb-2 font-semibold">Transaction Completed</div>
                 <div className="break-all rounded bg-emerald-950/50 p-3 font-mono text-xs text-emerald-300 border border-emerald-500/20">
-                  {escrow.amount} ${escrow.assetType} transferred to your wallet
+                  {escrow.assets.map((asset) => asset.isNft ? `${asset.assetType} NFT` : `${asset.amount} $${asset.assetType}`).join(', ')}
+                  {settled === 'release' && ' released to the receiver'}
+                  {settled === 'refund' && ' refunded to the creator'}
+                  {!settled && <>{' '}{cancelled ? 'refunded' : 'transferred'} to your wallet</>}
+                  {approved && priceBaseUnits > 0n && ` for ${escrow.price} $${escrow.paymentType}`}
                 </div>
               </AlertDescription>
             </Alert>
@@ -328,7 +431,60 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
     );
   }
 
-  if (error || !escrow) {
+  if (milestoneEscrow) {
+    return <MilestoneEscrowView escrow={milestoneEscrow} walletAddress={walletAddress} onBack={onBack} />;
+  }
+
+  if (closedEscrow) {
+    const closedMessages = {
+      claimed: ['Escrow already claimed', 'The receiver has claimed this escrow and its assets have been released.'],
+      cancelled: ['Escrow cancelled', 'The creator cancelled this escrow and the assets were refunded.'],
+      released: ['Escrow released', 'This arbiter escrow was settled in favour of the receiver.'],
+      refunded: ['Escrow refunded', 'This arbiter escrow was settled in favour of the creator, who was refunded.'],
+      closed: ['Escrow closed', 'This escrow is no longer active.'],
+      'not-found': ['Escrow not found', 'No escrow with this ID exists on the current network. Check the ID and network.'],
+    } as const;
+    const [title, description] = closedMessages[closedEscrow.state];
+    const digest = 'digest' in closedEscrow ? closedEscrow.digest : undefined;
+
+    return (
+      <div className="mx-auto max-w-3xl">
+        <Button 
+          variant="ghost"
+          onClick={onBack}
+          className="mb-6 gap-2 text-gray-300 hover:text-white hover:bg-slate-700/50"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Button>
+        <Card className="border-slate-700/50 bg-slate-800/50">
+          <CardContent className="py-12 text-center">
+            {closedEscrow.state === 'not-found' ? (
+              <AlertTriangle className="mx-auto mb-4 h-12 w-12 text-amber-400" />
+            ) : (
+              <CheckCircle2 className="mx-auto mb-4 h-12 w-12 text-slate-400" />
+            )}
+            <p className="mb-2 text-white">{title}</p>
+            <p className="text-sm text-gray-400">{description}</p>
+            <p className="mt-4 break-all font-mono text-xs text-gray-500">{escrowId}</p>
+            {digest && (
+              <a
+                href={`https://suiscan.xyz/testnet/tx/${digest}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-4 inline-flex items-center gap-1.5 text-sm text-cyan-400 underline hover:text-cyan-300"
+              >
+                <ExternalLink className="h-3.5 w-3.5" />
+                View closing transaction
+              </a>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!escrow) {
     return (
       <div className="mx-auto max-w-3xl">
         <Button 
@@ -343,13 +499,22 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
           <CardContent className="py-12 text-center">
             <AlertTriangle className="mx-auto mb-4 h-12 w-12 text-red-400" />
             <p className="text-red-400 mb-2">Failed to load escrow</p>
-            <p className="text-gray-400 text-sm">{error || 'Escrow not found'}</p>
+            <p className="text-gray-400 text-sm">{loadError ? 'Failed to load escrow details.' : 'Escrow not found'}</p>
           </CardContent>
         </Card>
       </div>
     );
   }
 
+  const isCreator = escrow.sender.toLowerCase() === walletAddress.toLowerCase();
+  const cancelBlocked = getCancelBlockedReason(escrow);
+  const isExpired = isEscrowExpired(escrow);
+  const isArbiter = !!escrow.arbiter && escrow.arbiter.toLowerCase() === walletAddress.toLowerCase();
+  const arbiterActions = getArbiterActions(
+    { creator: escrow.sender, recipient: escrow.receiver, arbiter: escrow.arbiter },
+    walletAddress
+  );
+
   return (
     <div className="mx-auto max-w-3xl">
       <Button 
@@ -377,17 +542,30 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
             <div className="flex items-start justify-between">
               <div>
                 <CardTitle className="flex items-center gap-2 text-white">
-                  <Shield className="h-6 w-6 text-purple-400" />
-                  Escrow Approval Required
+                  {escrow.arbiter ? (
+                    <Scale className="h-6 w-6 text-purple-400" />
+                  ) : (
+                    <Shield className="h-6 w-6 text-purple-400" />
+                  )}
+                  {escrow.arbiter ? 'Arbiter Escrow' : 'Escrow Approval Required'}
                 </CardTitle>
                 <CardDescription className="mt-2 text-gray-400">
-                  Review the escrow details and approve the release of funds
+                  {escrow.arbiter
+                    ? 'A third-party arbiter settles this escrow if the parties disagree'
+                    : 'Review the escrow details and approve the release of funds'}
                 </CardDescription>
               </div>
-              <Badge variant="outline" className="border-amber-500/50 bg-amber-500/20 text-amber-300">
-                <Clock className="mr-1.5 h-3 w-3" />
-                Pending
-              </Badge>
+              {isExpired ? (
+                <Badge variant="outline" className="border-red-500/50 bg-red-500/20 text-red-300">
+                  <Hourglass className="mr-1.5 h-3 w-3" />
+                  Expired
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="border-amber-500/50 bg-amber-500/20 text-amber-300">
+                  <Clock className="mr-1.5 h-3 w-3" />
+                  Pending
+                </Badge>
+              )}
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -422,20 +600,61 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
             <div className="space-y-4">
               <h3 className="flex items-center gap-2 text-white">
                 Asset Details
+                {escrow.assets.length > 1 && (
+                  <Badge variant="outline" className="border-purple-500/50 bg-purple-500/20 text-purple-300">
+                    Bundle of {escrow.assets.length}
+                  </Badge>
+                )}
               </h3>
+              {escrow.assets.length > 1 && (
+                <p className="text-sm text-gray-400">
+                  These assets were locked together and are released together in a single transaction.
+                </p>
+              )}
               
-              <div className="grid gap-4 sm:grid-cols-2">
-                <div className="rounded-lg border border-slate-600/50 bg-slate-700/30 p-4">
-                  <p className="mb-2 text-xs text-gray-400">Asset Type</p>
-                  <p className="text-lg text-white">${escrow.assetType}</p>
+              {escrow.assets.map((asset) => asset.isNft && asset.nftId ? (
+                <NftPreviewCard key={asset.id} nftId={asset.nftId} escrowId={asset.id} fallbackName={asset.assetType} />
+              ) : (
+                <div key={asset.id} className="grid gap-4 sm:grid-cols-2">
+                  <div className="rounded-lg border border-slate-600/50 bg-slate-700/30 p-4">
+                    <p className="mb-2 text-xs text-gray-400">Asset Type</p>
+                    <p className="text-lg text-white">{asset.isNft ? `${asset.assetType} NFT` : `$${asset.assetType}`}</p>
+                  </div>
+                  
+                  <div className="rounded-lg border border-slate-600/50 bg-slate-700/30 p-4">
+                    <p className="mb-2 text-xs text-gray-400">Amount</p>
+                    <p className="text-lg text-white">{asset.amount}</p>
+                  </div>
                 </div>
-                
-                <div className="rounded-lg border border-slate-600/50 bg-slate-700/30 p-4">
-                  <p className="mb-2 text-xs text-gray-400">Amount</p>
-                  <p className="text-lg text-white">{escrow.amount}</p>
+              ))}
+            </div>
+
+            {priceBaseUnits > 0n && (
+              <div className="space-y-3 border-t border-slate-600 pt-6">
+                <h3 className="text-white">Swap Terms</h3>
+                <div className="rounded-lg border border-emerald-500/50 bg-emerald-500/20 p-4">
+                  <p className="text-lg text-white">
+                    {isReceiver ? 'You pay' : 'Receiver pays'}{' '}
+                    <span className="font-semibold text-emerald-300">{escrow.price} ${escrow.paymentType}</span>
+                    {' '}to receive{' '}
+                    <span className="font-semibold text-emerald-300">
+                      {escrow.assets.map(describeAsset).join(' + ')}
+                    </span>
+                  </p>
+                  <p className="mt-1 text-sm text-emerald-200">
+                    The payment goes to the escrow creator in the same transaction that releases the asset
+                  </p>
                 </div>
+                {isReceiver && shortfall && (
+                  <Alert className="border-red-500/30 bg-red-950/30">
+                    <AlertTriangle className="h-4 w-4 text-red-400" />
+                    <AlertDescription className="text-sm text-red-200">
+                      {shortfall}
+                    </AlertDescription>
+                  </Alert>
+                )}
               </div>
-            </div>
+            )}
 
             {/* Parties */}
             <div className="space-y-4 border-t border-slate-600 pt-6">
@@ -443,7 +662,7 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
               
               <div className="space-y-3">
                 <div>
-                  <p className="mb-2 text-xs text-gray-400">Sender (Escrow Creator)</p>
+                  <p className="mb-2 text-xs text-gray-400">Sender (Escrow Creator){isCreator && ' (You)'}</p>
                   <div className="flex items-center gap-2 rounded-lg border border-slate-600/50 bg-slate-700/50 p-3">
                     <p className="flex-1 break-all font-mono text-xs text-gray-300">{escrow.sender}</p>
                     <Button
@@ -458,14 +677,33 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
                 </div>
 
                 <div>
-                  <p className="mb-2 text-xs text-gray-400">Receiver (You)</p>
+                  <p className="mb-2 text-xs text-gray-400">Receiver{isReceiver && ' (You)'}</p>
                   <div className="flex items-center gap-2 rounded-lg border border-emerald-500/50 bg-emerald-500/20 p-3">
                     <p className="flex-1 break-all font-mono text-xs text-emerald-300">{escrow.receiver}</p>
-                    <Badge variant="outline" className="border-emerald-500/50 bg-emerald-500/30 text-emerald-300">
-                      Your Wallet
-                    </Badge>
+                    {isReceiver && (
+                      <Badge variant="outline" className="border-emerald-500/50 bg-emerald-500/30 text-emerald-300">
+                        Your Wallet
+                      </Badge>
+                    )}
                   </div>
                 </div>
+
+                {escrow.arbiter && (
+                  <div>
+                    <p className="mb-2 text-xs text-gray-400">Arbiter{isArbiter && ' (You)'}</p>
+                    <div className="flex items-center gap-2 rounded-lg border border-purple-500/50 bg-purple-500/20 p-3">
+                      <p className="flex-1 break-all font-mono text-xs text-purple-300">{escrow.arbiter}</p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyAddress(escrow.arbiter!)}
+                        className="h-6 w-6 p-0 text-gray-400 hover:text-white"
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -481,27 +719,101 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
                   <div className="flex-1">
                     <p className="mb-1 text-white">{escrow.condition}</p>
                     <p className="text-sm text-blue-200">
-                      You must approve this transaction for the funds to be released to your wallet
+                      {escrow.arbiter
+                        ? 'The creator can release the assets to the receiver and the receiver can refund them to the creator; if they disagree, the arbiter decides'
+                        : 'You must approve this transaction for the funds to be released to your wallet'}
                     </p>
                   </div>
                 </div>
               </div>
             </div>
 
+            {escrow.expiryTime > 0 && (
+              <div className={`flex items-center justify-between rounded-lg border p-3 text-sm ${
+                isExpired ? 'border-red-500/30 bg-red-500/20 text-red-200' : 'border-amber-500/30 bg-amber-500/10 text-amber-200'
+              }`}>
+                <span className="flex items-center gap-2">
+                  <Hourglass className="h-4 w-4" />
+                  {isExpired ? 'Expired' : `Expires in ${formatTimeRemaining(escrow.expiryTime - Date.now())}`}
+                </span>
+                <span>{new Date(escrow.expiryTime).toLocaleString()}</span>
+              </div>
+            )}
+
             {/* Created At */}
-            <div className="flex items-center justify-between border-t border-slate-600 pt-4 text-sm text-gray-400">
-              <span>Created</span>
-              <span>{new Date(escrow.createdAt).toLocaleString()}</span>
-            </div>
+            {escrow.createdAt && (
+              <div className="flex items-center justify-between border-t border-slate-600 pt-4 text-sm text-gray-400">
+                <span>Created</span>
+                <span>{new Date(escrow.createdAt).toLocaleString()}</span>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* Arbiter Settlement */}
+        {arbiterActions.length > 0 && (
+          <Card className="border-purple-500/30 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <Scale className="h-5 w-5 text-purple-400" />
+                {isArbiter ? 'Arbiter Decision' : 'Settle Escrow'}
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                {isArbiter
+                  ? 'Decide the dispute by releasing the assets to the receiver or refunding them to the creator'
+                  : isCreator
+                    ? 'Release the assets to the receiver once you are satisfied; only the arbiter can refund them to you'
+                    : 'Refund the assets to the creator if the deal falls through; only the creator or the arbiter can release them to you'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-3 sm:grid-cols-2">
+              {arbiterActions.map((action) => (
+                <Button
+                  key={action}
+                  variant={action === 'refund' ? 'outline' : 'default'}
+                  onClick={() => handleSettle(action)}
+                  disabled={isApproving}
+                  className={action === 'refund'
+                    ? 'w-full gap-2 border-red-500/50 bg-red-500/10 py-6 text-red-300 hover:bg-red-500/20 hover:text-red-200'
+                    : 'w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 py-6 hover:from-blue-700 hover:to-cyan-700 text-white'}
+                  size="lg"
+                >
+                  {action === 'refund' ? <Undo2 className="h-5 w-5" /> : <CheckCircle2 className="h-5 w-5" />}
+                  {ARBITER_ACTION_LABELS[action].button}
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Creator Actions */}
+        {isCreator && !escrow.arbiter && (
+          <Card className="border-red-500/30 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+            <CardContent className="p-6">
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                disabled={isApproving || !!cancelBlocked}
+                className="w-full gap-3 border-red-500/50 bg-red-500/10 py-6 text-red-300 hover:bg-red-500/20 hover:text-red-200"
+                size="lg"
+              >
+                <Undo2 className="h-5 w-5" />
+                {isExpired ? 'Reclaim Expired Escrow' : 'Cancel & Refund'}
+              </Button>
+              <p className="mt-4 text-center text-xs text-gray-400">
+                {cancelBlocked || 'Returns the locked assets to your wallet and closes the escrow'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Action Card */}
+        {(!isCreator || isReceiver) && !escrow.arbiter && (
         <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
           <CardContent className="p-6">
             <Button
               onClick={handleApprove}
-              disabled={isApproving}
+              disabled={isApproving || isExpired || !!shortfall}
               className="w-full gap-3 bg-gradient-to-r from-blue-600 to-cyan-600 py-6 shadow-lg shadow-blue-500/25 hover:from-blue-700 hover:to-cyan-700 text-white"
               size="lg"
             >
@@ -518,17 +830,35 @@ export function ApprovalPage({ escrowId, walletAddress, onBack }: ApprovalPagePr
               ) : (
                 <>
                   <CheckCircle2 className="h-6 w-6" />
-                  Approve and Release Funds via Slush Wallet
+                  {priceBaseUnits > 0n
+                    ? `Pay ${escrow.price} $${escrow.paymentType} and Claim via Slush Wallet`
+                    : 'Approve and Release Funds via Slush Wallet'}
                 </>
               )}
             </Button>
 
             <p className="mt-4 text-center text-xs text-gray-400">
-              You will be prompted to sign this transaction in your Slush Wallet
+              {isExpired
+                ? 'This escrow has expired and can no longer be claimed'
+                : 'You will be prompted to sign this transaction in your Slush Wallet'}
             </p>
           </CardContent>
         </Card>
+        )}
       </div>
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title={pendingAction === 'cancel'
+          ? 'Review Cancel & Refund'
+          : pendingAction === 'claim' ? 'Review Claim' : ARBITER_ACTION_LABELS[pendingAction].review}
+        confirmLabel={pendingAction === 'cancel'
+          ? 'Sign & Cancel Escrow'
+          : pendingAction === 'claim' ? 'Sign & Claim' : `Sign & ${ARBITER_ACTION_LABELS[pendingAction].button}`}
+        onConfirm={pendingAction === 'cancel' ? signCancel : pendingAction === 'claim' ? signClaim : signSettle}
+        onCancel={cancelReview}
+      />
     </div>
   );
 }
@@ -1,11 +1,13 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Textarea } from '../ui/textarea';
 import { Label } from '../ui/label';
 import { Switch } from '../ui/switch';
-import { TokenSelector, type TokenType } from './TokenSelector';
+import { Badge } from '../ui/badge';
+import { TokenSelector } from './TokenSelector';
+import { TransactionReview } from './TransactionReview';
 import { 
   Upload, 
   CheckCircle2, 
@@ -17,12 +19,39 @@ import {
   Zap,
   ArrowRight,
   ArrowLeft,
-  Clock
+  Clock,
+  Loader2,
+  Pencil,
+  Trash2,
+  Hash,
+  AlertTriangle,
+  GitMerge
 } from 'lucide-react';
 import { Alert, AlertDescription } from '../ui/alert';
+import { Progress } from '../ui/progress';
 import { Transaction } from '@mysten/sui/transactions';
-import { useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { useSuiClient } from '@mysten/dapp-kit';
 import suiLogo from '../assets/sui-logo.png';
+import { getCoinInfo, isSuiCoinType, SUI_COIN_TYPE } from '../lib/coinRegistry';
+import { formatAmount, parseAmount, tryParseAmount } from '../lib/amount';
+import { ESTIMATED_GAS_BUDGET } from '../lib/balance';
+import { calculateBatchFee, chunkRanges, MAX_ESCROWS_PER_TX, MAX_RECIPIENTS_PER_TX } from '../lib/batch';
+import {
+  computeBatchHash,
+  createBatchDraftId,
+  deleteBatchDraft,
+  getBatchDraftStatus,
+  loadBatchDrafts,
+  saveBatchDraft,
+  type BatchChunk,
+  type BatchDraft,
+} from '../lib/batchDraft';
+import { DELIMITER_NAMES, getRecipientErrors, parseRecipients, type RecipientImport, type RecipientRow } from '../lib/recipientImport';
+import { analyzeRecipients, hasDuplicateRecipients, mergeDuplicateRecipients } from '../lib/recipientAnalysis';
+import { loadContacts } from '../lib/contacts';
+import { useCoinInfo } from '../hooks/useCoinInfo';
+import { useBalanceCheck } from '../hooks/useBalanceCheck';
+import { useSendTokens } from '../hooks/useTransactionMutations';
 
 interface BatchCreateProps {
   walletAddress: string;
@@ -30,32 +59,57 @@ interface BatchCreateProps {
 
 type Step = 1 | 2 | 3;
 
-interface Recipient {
-  address: string;
-  amount: string;
-  valid: boolean;
-}
-
 export function BatchCreate({ walletAddress }: BatchCreateProps) {
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutate: signAndExecute } = useSendTokens();
   const suiClient = useSuiClient();
   const [currentStep, setCurrentStep] = useState<Step>(1);
-  const [assetType, setAssetType] = useState<TokenType>('SUI');
+  const [coinType, setCoinType] = useState(SUI_COIN_TYPE);
   const packageId = import.meta.env.VITE_PACKAGE_ID || '';
   const serviceConfigId = import.meta.env.VITE_SERVICE_CONFIG_ID || '';
-  const [customTokenObjectId, setCustomTokenObjectId] = useState('');
-  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [recipients, setRecipients] = useState<RecipientRow[]>([]);
+  const [importInfo, setImportInfo] = useState<Omit<RecipientImport, 'rows'> | null>(null);
+  // Rows shown as inputs in the review table: those that failed validation, or that the user chose to edit
+  const [editableLines, setEditableLines] = useState<Set<number>>(new Set());
   const [csvInput, setCsvInput] = useState('');
   const [uploadedFileName, setUploadedFileName] = useState('');
   const [enableTimeLock, setEnableTimeLock] = useState(false);
   const [unlockDate, setUnlockDate] = useState('');
-  const [batchListObjectId, setBatchListObjectId] = useState('');
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftCreatedAt, setDraftCreatedAt] = useState(0);
+  const [contentHash, setContentHash] = useState<string | undefined>();
+  const [lockedAt, setLockedAt] = useState<number | undefined>();
+  const [isLocking, setIsLocking] = useState(false);
+  const [savedDrafts, setSavedDrafts] = useState<BatchDraft[]>(loadBatchDrafts);
+  const [contacts] = useState(loadContacts);
   const [isExecuting, setIsExecuting] = useState(false);
-  const [transactionDigest, setTransactionDigest] = useState('');
+  const [chunks, setChunks] = useState<BatchChunk[]>([]);
+  const [pendingChunkIndex, setPendingChunkIndex] = useState<number | null>(null);
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
 
-  const validateAddress = (address: string): boolean => {
-    return address.startsWith('0x') && address.length === 66;
-  };
+  const { data: coinInfo } = useCoinInfo(coinType);
+
+  // Time-locked batches go through the escrow module, which charges no service fee
+  const isTimeLocked = enableTimeLock && !!unlockDate;
+  const batchFee = (amount: bigint) => (isTimeLocked ? 0n : calculateBatchFee(amount));
+  const unlockDateError = enableTimeLock && (!unlockDate || new Date(unlockDate).getTime() <= Date.now())
+    ? 'Choose a release time in the future'
+    : null;
+
+  // Keep the current draft, and once locked its execution results, in local storage
+  useEffect(() => {
+    if (!draftId) return;
+    saveBatchDraft({
+      id: draftId,
+      coinType,
+      csvInput,
+      recipients,
+      unlockDate: enableTimeLock ? unlockDate : null,
+      contentHash,
+      lockedAt,
+      chunks,
+      createdAt: draftCreatedAt,
+    });
+  }, [draftId, coinType, csvInput, recipients, enableTimeLock, unlockDate, contentHash, lockedAt, chunks, draftCreatedAt]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -70,53 +124,125 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
     }
   };
 
+  // Rows with problems start out editable so they can be fixed in the review table
+  const showRecipients = (rows: RecipientRow[], decimals: number) => {
+    const errors = getRecipientErrors(rows, decimals);
+    setRecipients(rows);
+    setEditableLines(new Set(rows.filter((_, i) => errors[i]).map(row => row.line)));
+  };
+
   const parseCsvData = () => {
-    const lines = csvInput.trim().split('\n');
-    const parsed: Recipient[] = lines.map(line => {
-      const [address, amount] = line.split(',').map(s => s.trim());
-      return {
-        address,
-        amount,
-        valid: validateAddress(address) && parseFloat(amount) > 0,
-      };
-    });
-    setRecipients(parsed);
+    if (!coinInfo) return;
+    const { rows, ...info } = parseRecipients(csvInput);
+    showRecipients(rows, coinInfo.decimals);
+    setImportInfo(info);
+
+    // Editing an existing draft keeps its ID
+    if (!draftId) {
+      setDraftId(createBatchDraftId());
+      setDraftCreatedAt(Date.now());
+    }
     setCurrentStep(2);
   };
 
-  const lockBatchList = () => {
-    // Mock: Generate a batch list object ID
-    const mockObjectId = '0x' + Array.from({ length: 64 }, () => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
-    setBatchListObjectId(mockObjectId);
-    setCurrentStep(3);
+  // Freezes the list: records its content hash and plans the transactions
+  const lockBatchList = async () => {
+    if (!coinInfo) return;
+    setIsLocking(true);
+    try {
+      const hash = await computeBatchHash(
+        { coinType, recipients, unlockDate: isTimeLocked ? unlockDate : null },
+        coinInfo.decimals
+      );
+      const chunkSize = isTimeLocked ? MAX_ESCROWS_PER_TX : MAX_RECIPIENTS_PER_TX;
+      setContentHash(hash);
+      setLockedAt(Date.now());
+      setChunks(chunkRanges(recipients.length, chunkSize).map(range => ({ ...range, status: 'pending' })));
+      setCurrentStep(3);
+    } catch (error) {
+      console.error('Error locking batch list:', error);
+      alert(`Could not lock batch list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLocking(false);
+    }
   };
 
-  const executeBatch = async () => {
+  const openDraft = async (draft: BatchDraft) => {
+    try {
+      const { decimals } = await getCoinInfo(suiClient, draft.coinType);
+      setDraftId(draft.id);
+      setDraftCreatedAt(draft.createdAt);
+      setCoinType(draft.coinType);
+      setCsvInput(draft.csvInput);
+      setUploadedFileName('');
+      showRecipients(draft.recipients, decimals);
+      setImportInfo(null);
+      setEnableTimeLock(draft.unlockDate !== null);
+      setUnlockDate(draft.unlockDate ?? '');
+      setContentHash(draft.contentHash);
+      setLockedAt(draft.lockedAt);
+      // A transaction left executing when the page closed may or may not have landed
+      setChunks(draft.chunks.map(chunk => chunk.status === 'executing'
+        ? { ...chunk, status: 'failed', error: 'Interrupted before confirmation. Check your wallet history before resuming.' }
+        : chunk
+      ));
+      setCurrentStep(draft.contentHash ? 3 : 2);
+    } catch (error) {
+      console.error('Error opening draft:', error);
+      alert(`Could not open draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const updateRecipient = (index: number, patch: Partial<RecipientRow>) => {
+    setRecipients(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const removeRecipient = (index: number) => {
+    setRecipients(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const mergeDuplicates = () => {
+    if (!coinInfo) return;
+    setRecipients(prev => mergeDuplicateRecipients(prev, coinInfo.decimals));
+  };
+
+  const removeDraft = (id: string) => {
+    deleteBatchDraft(id);
+    setSavedDrafts(loadBatchDrafts());
+  };
+
+  const startNewBatch = () => {
+    setDraftId(null);
+    setContentHash(undefined);
+    setLockedAt(undefined);
+    setCurrentStep(1);
+    setCsvInput('');
+    setUploadedFileName('');
+    setRecipients([]);
+    setImportInfo(null);
+    setEnableTimeLock(false);
+    setUnlockDate('');
+    setChunks([]);
+    setSavedDrafts(loadBatchDrafts());
+  };
+
+  const editDraft = () => {
+    setSavedDrafts(loadBatchDrafts());
+    setCurrentStep(1);
+  };
+
+  const updateChunk = (index: number, patch: Partial<BatchChunk>) => {
+    setChunks(prev => prev.map((chunk, i) => (i === index ? { ...chunk, ...patch } : chunk)));
+  };
+
+  // Builds the transaction for one chunk and hands it to the review dialog
+  const prepareChunk = async (index: number) => {
+    const chunk = chunks[index];
     setIsExecuting(true);
     
     try {
-      // Determine coin type based on asset selection
-      let coinType: string;
-      switch (assetType) {
-        case 'SUI':
-          coinType = '0x2::sui::SUI';
-          break;
-        case 'USDC':
-          coinType = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC'; // Testnet USDC
-          break;
-        case 'OTHER':
-          if (!customTokenObjectId.trim()) {
-            alert('Please enter a custom token object ID');
-            setIsExecuting(false);
-            return;
-          }
-          coinType = customTokenObjectId;
-          break;
-        default:
-          coinType = '0x2::sui::SUI';
-      }
+      // Resolve decimals from on-chain coin metadata
+      const coinInfo = await getCoinInfo(suiClient, coinType);
 
       // Get user's coins
       const coins = await suiClient.getCoins({
@@ -125,94 +251,220 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
       });
 
       if (coins.data.length === 0) {
-        alert(`No ${assetType} coins found in your wallet`);
-        setIsExecuting(false);
-        return;
+        throw new Error(`No ${coinInfo.symbol} coins found in your wallet`);
       }
 
       const txb = new Transaction();
 
-      // Determine decimals (SUI and USDC have different decimals)
-      const decimals = assetType === 'USDC' ? 6 : 9;
-      const multiplier = Math.pow(10, decimals);
-
-      // Prepare recipients and amounts
-      const recipientAddresses = recipients.map(r => r.address);
-      // Use BigInt for calculation precision
-      const amounts = recipients.map(r => BigInt(Math.floor(parseFloat(r.amount) * multiplier)));
+      // Prepare recipients and amounts for this chunk only
+      const chunkRecipients = recipients.slice(chunk.start, chunk.end);
+      const recipientAddresses = chunkRecipients.map(r => r.address);
+      const amounts = chunkRecipients.map(r => parseAmount(r.amount, coinInfo.decimals));
       
       // Calculate total required amount
       const totalAmount = amounts.reduce((sum, a) => sum + a, 0n);
-      
-      // Calculate Fee (0.5% = 50 BPS)
-      let feeAmount = (totalAmount * 50n) / 10000n;
-      if (feeAmount === 0n && totalAmount > 0n) {
-        feeAmount = 1n;
-      }
+      const feeAmount = batchFee(totalAmount);
       
       const totalNeeded = totalAmount + feeAmount;
 
-      let paymentCoin;
-
-      if (assetType === 'SUI') {
-        // For SUI: Split the exact amount needed from the gas coin(s)
-        // This is the standard pattern for SUI payments to avoid "No valid gas coins" errors
-        // The wallet will automatically select gas coins and handle the split
-        [paymentCoin] = txb.splitCoins(txb.gas, [totalNeeded]);
+      // Coin to pay from: SUI comes out of gas, other tokens are merged into one coin
+      let sourceCoin;
+      if (isSuiCoinType(coinType)) {
+        sourceCoin = txb.gas;
       } else {
-        // For Non-SUI (USDC, etc.): Merge all available token coins
-        const primaryCoin = txb.object(coins.data[0].coinObjectId);
+        sourceCoin = txb.object(coins.data[0].coinObjectId);
         
         if (coins.data.length > 1) {
           const coinsToMerge = coins.data.slice(1).map(c => txb.object(c.coinObjectId));
-          txb.mergeCoins(primaryCoin, coinsToMerge);
+          txb.mergeCoins(sourceCoin, coinsToMerge);
         }
-        paymentCoin = primaryCoin;
       }
 
-      // Call batch_send_token
-      txb.moveCall({
-        target: `${packageId}::batch::batch_send_token`,
-        typeArguments: [coinType],
-        arguments: [
-          txb.object(serviceConfigId),
-          paymentCoin,
-          txb.pure.vector('address', recipientAddresses),
-          txb.pure.vector('u64', amounts.map(a => a.toString())),
-        ],
-      });
+      if (isTimeLocked) {
+        // One time-locked escrow per recipient, claimable after the unlock time. The
+        // Dashboard recognizes these batches by this shape (see `parseBatches`)
+        const unlockTimestamp = new Date(unlockDate).getTime();
+        const lockedCoins = txb.splitCoins(sourceCoin, amounts);
 
-      // Transfer the payment coin back to the sender
-      // (It was created via split or is the primary coin; either way, ensure it returns to user)
-      txb.transferObjects([paymentCoin], txb.pure.address(walletAddress));
+        recipientAddresses.forEach((address, i) => {
+          txb.moveCall({
+            target: `${packageId}::escrow::lock_coin`,
+            typeArguments: [coinType, SUI_COIN_TYPE],
+            arguments: [
+              lockedCoins[i],
+              txb.pure.address(address),
+              txb.pure.u64(0), // No price, recipients claim for free
+              txb.pure.u64(unlockTimestamp),
+            ],
+          });
+        });
+      } else {
+        let paymentCoin;
 
-      // Execute transaction
-      signAndExecute(
-        {
-          transaction: txb,
-        },
-        {
-          onSuccess: (result) => {
-            console.log('Batch transaction successful:', result);
-            setTransactionDigest(result.digest);
-            setIsExecuting(false);
-          },
-          onError: (error) => {
-            console.error('Batch transaction failed:', error);
-            alert(`Transaction failed: ${error.message}`);
-            setIsExecuting(false);
-          },
+        if (isSuiCoinType(coinType)) {
+          // For SUI: Split the exact amount needed from the gas coin(s)
+          // This is the standard pattern for SUI payments to avoid "No valid gas coins" errors
+          // The wallet will automatically select gas coins and handle the split
+          [paymentCoin] = txb.splitCoins(sourceCoin, [totalNeeded]);
+        } else {
+          // For Non-SUI (USDC, etc.): Pay from the merged token coin
+          paymentCoin = sourceCoin;
         }
-      );
+
+        // Call batch_send_token
+        txb.moveCall({
+          target: `${packageId}::batch::batch_send_token`,
+          typeArguments: [coinType],
+          arguments: [
+            txb.object(serviceConfigId),
+            paymentCoin,
+            txb.pure.vector('address', recipientAddresses),
+            txb.pure.vector('u64', amounts.map(a => a.toString())),
+          ],
+        });
+
+        // Transfer the payment coin back to the sender
+        // (It was created via split or is the primary coin; either way, ensure it returns to user)
+        txb.transferObjects([paymentCoin], txb.pure.address(walletAddress));
+      }
+
+      // Dry-run and review before the wallet is asked to sign
+      setPendingChunkIndex(index);
+      setPendingTransaction(txb);
     } catch (error) {
       console.error('Error preparing transaction:', error);
-      alert(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      updateChunk(index, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
       setIsExecuting(false);
     }
   };
 
-  const totalAmount = recipients.reduce((sum, r) => sum + (parseFloat(r.amount) || 0), 0);
-  const validRecipients = recipients.filter(r => r.valid).length;
+  // Starts the batch, or resumes from the first chunk that has not succeeded.
+  // Successful chunks are never rebuilt, so earlier recipients are not paid twice.
+  const executeBatch = async () => {
+    // Refuse to send anything if the locked list no longer matches its hash
+    if (!coinInfo || !contentHash) return;
+    const hash = await computeBatchHash(
+      { coinType, recipients, unlockDate: isTimeLocked ? unlockDate : null },
+      coinInfo.decimals
+    );
+    if (hash !== contentHash) {
+      alert('This batch no longer matches its locked content hash and cannot be executed. Create a new batch instead.');
+      return;
+    }
+
+    const nextIndex = chunks.findIndex(chunk => chunk.status !== 'success');
+    if (nextIndex === -1) return;
+
+    // A chunk whose result could not be confirmed may still have executed; never send it twice
+    const digest = chunks[nextIndex].digest;
+    if (digest) {
+      try {
+        const tx = await suiClient.getTransactionBlock({ digest, options: { showEffects: true } });
+        if (tx.effects?.status.status === 'success') {
+          updateChunk(nextIndex, { status: 'success', error: undefined });
+          alert(`Chunk ${nextIndex + 1} had already executed and is now marked as sent. Continue to send the rest.`);
+          return;
+        }
+      } catch (error) {
+        alert(`Could not check whether chunk ${nextIndex + 1} already executed: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+    prepareChunk(nextIndex);
+  };
+
+  const signBatch = () => {
+    if (!pendingTransaction || pendingChunkIndex === null) return;
+    const txb = pendingTransaction;
+    const index = pendingChunkIndex;
+    setPendingTransaction(null);
+    setPendingChunkIndex(null);
+    updateChunk(index, { status: 'executing', error: undefined });
+
+    signAndExecute(
+      {
+        transaction: txb,
+      },
+      {
+        onSuccess: async (result) => {
+          // A signed transaction can still abort in Move, so only executed chunks count as sent.
+          // Waiting for it also keeps the next chunk from spending coins this one merged or used.
+          try {
+            const { effects } = await suiClient.waitForTransaction({
+              digest: result.digest,
+              options: { showEffects: true },
+            });
+            if (effects?.status.status !== 'success') {
+              throw new Error(effects?.status.error || 'Transaction failed on-chain');
+            }
+          } catch (error) {
+            console.error(`Batch chunk ${index + 1} failed:`, error);
+            updateChunk(index, {
+              status: 'failed',
+              digest: result.digest,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            setIsExecuting(false);
+            return;
+          }
+
+          console.log(`Batch chunk ${index + 1} successful:`, result);
+          updateChunk(index, { status: 'success', digest: result.digest });
+
+          // Continue with the next chunk; chunks run strictly in order
+          if (index + 1 < chunks.length) {
+            prepareChunk(index + 1);
+          } else {
+            setIsExecuting(false);
+          }
+        },
+        onError: (error) => {
+          console.error(`Batch chunk ${index + 1} failed:`, error);
+          updateChunk(index, { status: 'failed', error: error.message });
+          setIsExecuting(false);
+        },
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setPendingChunkIndex(null);
+    setIsExecuting(false);
+  };
+
+  const decimals = coinInfo?.decimals ?? 0;
+  const totalAmount = recipients.reduce(
+    (sum, r) => sum + (coinInfo ? tryParseAmount(r.amount, decimals) ?? 0n : 0n),
+    0n
+  );
+
+  // Chunks still to be sent, each paying its own fee and gas
+  const remainingChunks = chunks.filter(chunk => chunk.status !== 'success');
+  const chunkTotal = (chunk: BatchChunk) => recipients
+    .slice(chunk.start, chunk.end)
+    .reduce((sum, r) => sum + (coinInfo ? tryParseAmount(r.amount, decimals) ?? 0n : 0n), 0n);
+  const remainingRequired = remainingChunks.reduce((sum, chunk) => {
+    const amount = chunkTotal(chunk);
+    return sum + amount + batchFee(amount);
+  }, 0n);
+  const totalFee = chunks.length > 0
+    ? chunks.reduce((sum, chunk) => sum + batchFee(chunkTotal(chunk)), 0n)
+    : batchFee(totalAmount);
+  const completedChunks = chunks.length - remainingChunks.length;
+  const isBatchComplete = chunks.length > 0 && remainingChunks.length === 0;
+  const { shortfall } = useBalanceCheck(
+    walletAddress,
+    coinInfo,
+    remainingChunks.length > 0 ? remainingRequired : null,
+    ESTIMATED_GAS_BUDGET * BigInt(Math.max(remainingChunks.length, 1))
+  );
+  const recipientErrors = coinInfo ? getRecipientErrors(recipients, decimals) : [];
+  const validRecipients = recipientErrors.filter(error => !error).length;
+  const recipientWarnings = coinInfo
+    ? analyzeRecipients(recipients, { decimals, sender: walletAddress, contacts })
+    : [];
+  const warningCount = recipientWarnings.filter(warnings => warnings.length > 0).length;
 
   return (
     <div className="mx-auto max-w-4xl">
@@ -250,6 +502,67 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
       {/* Step 1: Data Input */}
       {currentStep === 1 && (
         <div className="space-y-6">
+          {savedDrafts.some(draft => draft.id !== draftId) && (
+            <Card className="border border-slate-600 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <FileText className="h-5 w-5 text-cyan-400" />
+                  Saved Batches
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Drafts and locked batches stored in this browser
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y divide-slate-700/50 overflow-hidden rounded-lg border border-slate-600/50 bg-slate-800/30">
+                  {savedDrafts.filter(draft => draft.id !== draftId).map(draft => {
+                    const status = getBatchDraftStatus(draft);
+                    return (
+                      <div key={draft.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-xs text-gray-300">{draft.id.slice(0, 8)}</span>
+                            <Badge
+                              variant="outline"
+                              className={
+                                status === 'executed'
+                                  ? 'border-emerald-500/50 bg-emerald-500/20 text-emerald-300'
+                                  : status === 'locked'
+                                    ? 'border-purple-500/50 bg-purple-500/20 text-purple-300'
+                                    : 'border-slate-500/50 bg-slate-500/20 text-slate-300'
+                              }
+                            >
+                              {status === 'executed' ? 'Executed' : status === 'locked' ? 'Locked' : 'Draft'}
+                            </Badge>
+                          </div>
+                          <p className="mt-1 text-xs text-gray-400">
+                            {draft.recipients.length} recipients · updated {new Date(draft.updatedAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDraft(draft)}
+                          className="border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+                        >
+                          Open
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeDraft(draft.id)}
+                          className="h-8 w-8 p-0 text-gray-400 hover:bg-slate-700/50 hover:text-red-400"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="border border-slate-600 bg-slate-800/50 backdrop-blur-sm shadow-lg">
             <CardHeader>
               <CardTitle className="text-white">Select Token</CardTitle>
@@ -260,24 +573,8 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="token-select">Token Type</Label>
-                <TokenSelector value={assetType} onChange={setAssetType} />
+                <TokenSelector value={coinType} onChange={setCoinType} />
               </div>
-
-              {assetType === 'OTHER' && (
-                <div className="space-y-2">
-                  <Label htmlFor="custom-token">Custom Token Object ID</Label>
-                  <Input
-                    id="custom-token"
-                    value={customTokenObjectId}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCustomTokenObjectId(e.target.value)}
-                    placeholder="0x..."
-                    className="border-slate-600 bg-slate-700/50 font-mono text-sm text-white placeholder:text-slate-400"
-                  />
-                  <p className="text-xs text-gray-400">
-                    Enter the full type/object ID for your custom token
-                  </p>
-                </div>
-              )}
             </CardContent>
           </Card>
 
@@ -288,7 +585,8 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                 Recipient List
               </CardTitle>
               <CardDescription className="text-gray-400">
-                Enter recipient addresses and amounts (one per line: address, amount)
+                One recipient per line: address, amount and an optional memo. Comma, semicolon and
+                tab separated lists (e.g. pasted from a spreadsheet) and header rows are detected automatically.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -299,7 +597,7 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                   <Input
                     id="file-upload"
                     type="file"
-                    accept=".csv,.txt"
+                    accept=".csv,.tsv,.txt"
                     onChange={handleFileUpload}
                     className="hidden"
                   />
@@ -334,7 +632,7 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
               
               <Button 
                 onClick={parseCsvData}
-                disabled={!csvInput.trim() || (assetType === 'OTHER' && !customTokenObjectId.trim())}
+                disabled={!csvInput.trim() || !coinInfo}
                 className="w-full gap-2 bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg shadow-blue-500/25 text-white"
                 size="lg"
               >
@@ -356,7 +654,7 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                 Review Batch List
               </CardTitle>
               <CardDescription className="text-gray-400">
-                Verify all recipients before creating the immutable BatchList Object
+                Verify all recipients before locking the batch list
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -366,13 +664,13 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                   <div>
                     <p className="mb-1.5 text-xs text-gray-400">Token</p>
                     <div className="flex items-center gap-2">
-                      {assetType === 'SUI' && <img src={suiLogo} alt="SUI" className="h-4 w-4" />}
-                      <p className="text-white">${assetType}</p>
+                      {coinInfo?.iconUrl && <img src={coinInfo.iconUrl} alt={coinInfo.symbol} className="h-4 w-4" />}
+                      <p className="text-white">${coinInfo?.symbol}</p>
                     </div>
                   </div>
                   <div>
                     <p className="mb-1.5 text-xs text-gray-400">Total Amount</p>
-                    <p className="text-white">{totalAmount.toLocaleString()}</p>
+                    <p className="text-white">{formatAmount(totalAmount, decimals)}</p>
                   </div>
                   <div>
                     <p className="mb-1.5 text-xs text-gray-400">Valid Recipients</p>
@@ -387,43 +685,156 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                   </div>
                 </div>
                 
-                {assetType === 'OTHER' && customTokenObjectId && (
-                  <div className="border-t border-slate-600 pt-3">
-                    <p className="mb-1.5 text-xs text-gray-400">Custom Token Object ID</p>
-                    <p className="font-mono text-xs text-gray-300 break-all">{customTokenObjectId}</p>
-                  </div>
+                <div className="border-t border-slate-600 pt-3">
+                  <p className="mb-1.5 text-xs text-gray-400">Coin Type</p>
+                  <p className="font-mono text-xs text-gray-300 break-all">{coinType}</p>
+                </div>
+                {importInfo && (
+                  <p className="text-xs text-gray-400">
+                    Read as {DELIMITER_NAMES[importInfo.delimiter]}-separated
+                    {importInfo.hasHeader ? ' with a header row' : ' without a header row'}
+                  </p>
                 )}
               </div>
 
+              {validRecipients !== recipients.length && (
+                <Alert className="border-red-500/50 bg-red-500/20">
+                  <AlertCircle className="h-4 w-4 text-red-300" />
+                  <AlertDescription className="text-sm text-red-200">
+                    <div className="mb-1 font-semibold">
+                      {recipients.length - validRecipients} of {recipients.length} rows need fixing before the list can be locked
+                    </div>
+                    <ul className="max-h-24 space-y-0.5 overflow-y-auto text-xs">
+                      {recipients.map((recipient, idx) => recipientErrors[idx] && (
+                        <li key={idx}>Row {recipient.line}: {recipientErrors[idx]}</li>
+                      ))}
+                    </ul>
+                    {hasDuplicateRecipients(recipients) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={mergeDuplicates}
+                        className="mt-3 gap-2 border-red-500/50 bg-red-500/20 text-red-100 hover:bg-red-500/30"
+                      >
+                        <GitMerge className="h-3.5 w-3.5" />
+                        Merge duplicate addresses (sum their amounts)
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {warningCount > 0 && (
+                <Alert className="border-amber-500/50 bg-amber-500/20">
+                  <AlertTriangle className="h-4 w-4 text-amber-300" />
+                  <AlertDescription className="text-sm text-amber-200">
+                    <div className="mb-1 font-semibold">
+                      {warningCount} {warningCount === 1 ? 'row looks' : 'rows look'} unusual. Double-check before locking
+                    </div>
+                    <ul className="max-h-24 space-y-0.5 overflow-y-auto text-xs">
+                      {recipients.flatMap((recipient, idx) => recipientWarnings[idx].map((warning, j) => (
+                        <li key={`${idx}-${j}`}>Row {recipient.line}: {warning.message}</li>
+                      )))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Recipients Table */}
               <div className="overflow-hidden rounded-lg border border-slate-600/50">
                 <div className="max-h-96 overflow-y-auto">
                   <table className="w-full text-sm">
                     <thead className="sticky top-0 border-b border-slate-600 bg-slate-700/80 backdrop-blur-sm">
                       <tr>
+                        <th className="px-4 py-3 text-left text-xs text-gray-300">Row</th>
                         <th className="px-4 py-3 text-left text-xs text-gray-300">Status</th>
                         <th className="px-4 py-3 text-left text-xs text-gray-300">Address</th>
                         <th className="px-4 py-3 text-right text-xs text-gray-300">Amount</th>
+                        <th className="px-4 py-3 text-left text-xs text-gray-300">Memo</th>
+                        <th className="px-4 py-3" />
                       </tr>
                     </thead>
                     <tbody className="bg-slate-800/30">
-                      {recipients.map((recipient, idx) => (
-                        <tr key={idx} className="border-t border-slate-700/50">
-                          <td className="px-4 py-3">
-                            {recipient.valid ? (
-                              <CheckCircle2 className="h-4 w-4 text-emerald-400" />
-                            ) : (
-                              <AlertCircle className="h-4 w-4 text-red-400" />
-                            )}
-                          </td>
-                          <td className="px-4 py-3 font-mono text-xs text-gray-300">
-                            {recipient.address.slice(0, 10)}...{recipient.address.slice(-8)}
-                          </td>
-                          <td className="px-4 py-3 text-right text-white">
-                            {recipient.amount}
-                          </td>
-                        </tr>
-                      ))}
+                      {recipients.map((recipient, idx) => {
+                        const error = recipientErrors[idx];
+                        const isEditable = editableLines.has(recipient.line);
+                        return (
+                          <tr key={recipient.line} className="border-t border-slate-700/50 align-top">
+                            <td className="px-4 py-3 text-xs text-gray-400">{recipient.line}</td>
+                            <td className="px-4 py-3">
+                              {error ? (
+                                <AlertCircle className="h-4 w-4 text-red-400" />
+                              ) : recipientWarnings[idx]?.length ? (
+                                <AlertTriangle className="h-4 w-4 text-amber-400" />
+                              ) : (
+                                <CheckCircle2 className="h-4 w-4 text-emerald-400" />
+                              )}
+                            </td>
+                            <td className="px-4 py-3 font-mono text-xs text-gray-300">
+                              {isEditable ? (
+                                <Input
+                                  value={recipient.address}
+                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRecipient(idx, { address: e.target.value.trim() })}
+                                  placeholder="0x..."
+                                  className="h-8 border-slate-600 bg-slate-700/50 font-mono text-xs text-white"
+                                />
+                              ) : (
+                                <>{recipient.address.slice(0, 10)}...{recipient.address.slice(-8)}</>
+                              )}
+                              {error && <p className="mt-1 font-sans text-xs text-red-300">{error}</p>}
+                              {recipientWarnings[idx]?.map(warning => (
+                                <p key={warning.kind} className="mt-1 font-sans text-xs text-amber-300">{warning.message}</p>
+                              ))}
+                            </td>
+                            <td className="px-4 py-3 text-right text-white">
+                              {isEditable ? (
+                                <Input
+                                  value={recipient.amount}
+                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRecipient(idx, { amount: e.target.value.trim() })}
+                                  placeholder="0.0"
+                                  className="h-8 w-28 border-slate-600 bg-slate-700/50 text-right text-white"
+                                />
+                              ) : (
+                                recipient.amount
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-xs text-gray-300">
+                              {isEditable ? (
+                                <Input
+                                  value={recipient.memo}
+                                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRecipient(idx, { memo: e.target.value })}
+                                  placeholder="Optional"
+                                  className="h-8 w-32 border-slate-600 bg-slate-700/50 text-xs text-white"
+                                />
+                              ) : (
+                                recipient.memo
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              <div className="flex justify-end gap-1">
+                                {!isEditable && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setEditableLines(prev => new Set(prev).add(recipient.line))}
+                                    className="h-7 w-7 p-0 text-gray-400 hover:bg-slate-700/50 hover:text-cyan-400"
+                                  >
+                                    <Pencil className="h-3.5 w-3.5" />
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => removeRecipient(idx)}
+                                  className="h-7 w-7 p-0 text-gray-400 hover:bg-slate-700/50 hover:text-red-400"
+                                >
+                                  <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
@@ -457,8 +868,11 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                       className="border-slate-600 bg-slate-700/50 text-white"
                     />
                     <p className="text-xs text-gray-400">
-                      Tokens will be locked and automatically released at the specified time
+                      Each recipient receives a time-locked escrow they can claim after this time
                     </p>
+                    {unlockDateError && (
+                      <p className="text-xs text-red-400">{unlockDateError}</p>
+                    )}
                   </div>
                 )}
               </div>
@@ -467,26 +881,27 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
               <Alert className="border-amber-500/50 bg-amber-500/20">
                 <Lock className="h-4 w-4 text-amber-300" />
                 <AlertDescription className="text-sm text-amber-200">
-                  By clicking "Lock List", you will create an <span className="font-semibold">immutable BatchList Object</span> on the Sui blockchain. 
-                  This list cannot be modified after creation.
+                  Locking freezes this list and records its <span className="font-semibold">SHA-256 content hash</span>.
+                  A locked list cannot be edited; start a new batch to make changes.
                 </AlertDescription>
               </Alert>
 
               <div className="flex gap-3">
                 <Button 
                   variant="outline"
-                  onClick={() => setCurrentStep(1)}
+                  onClick={editDraft}
                   className="flex-1 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
                 >
                   <ArrowLeft className="mr-2 h-4 w-4" />
-                  Back
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
                 </Button>
                 <Button 
                   onClick={lockBatchList}
-                  disabled={validRecipients !== recipients.length}
+                  disabled={recipients.length === 0 || validRecipients !== recipients.length || !!unlockDateError || isLocking}
                   className="flex-1 gap-2 bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 shadow-lg shadow-purple-500/25 text-white"
                 >
-                  <Lock className="h-4 w-4" />
+                  {isLocking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
                   Lock List
                 </Button>
               </div>
@@ -502,19 +917,22 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-white">
                 <CheckCircle2 className="h-5 w-5 text-emerald-400" />
-                BatchList Object Created
+                Batch List Locked
               </CardTitle>
               <CardDescription className="text-gray-400">
-                Your batch list has been locked on the Sui blockchain
+                The recipient list is frozen. Its content hash is stored with each transaction digest.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <Alert className="border-emerald-500/50 bg-emerald-500/20">
-                <Shield className="h-4 w-4 text-emerald-300" />
+                <Hash className="h-4 w-4 text-emerald-300" />
                 <AlertDescription className="text-sm text-emerald-200">
-                  <div className="mb-2">Object ID Created:</div>
+                  <div className="mb-2">Content Hash (SHA-256):</div>
                   <div className="break-all rounded bg-emerald-500/30 border border-emerald-500/50 p-3 font-mono text-xs text-white">
-                    {batchListObjectId}
+                    {contentHash}
+                  </div>
+                  <div className="mt-2 text-xs text-emerald-300/80">
+                    Batch {draftId}{lockedAt && ` · locked ${new Date(lockedAt).toLocaleString()}`}
                   </div>
                 </AlertDescription>
               </Alert>
@@ -524,9 +942,9 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                 <div>
                   <p className="mb-1.5 text-xs text-gray-400">Total Value</p>
                   <div className="flex items-center gap-2">
-                    <p className="text-white">{totalAmount.toLocaleString()}</p>
-                    {assetType === 'SUI' && <img src={suiLogo} alt="SUI" className="h-4 w-4" />}
-                    <p className="text-white">${assetType}</p>
+                    <p className="text-white">{formatAmount(totalAmount, decimals)}</p>
+                    {coinInfo?.iconUrl && <img src={coinInfo.iconUrl} alt={coinInfo.symbol} className="h-4 w-4" />}
+                    <p className="text-white">${coinInfo?.symbol}</p>
                   </div>
                 </div>
                 <div>
@@ -543,58 +961,120 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
                   </div>
                 )}
                 <div className="col-span-2">
-                  <p className="mb-1.5 text-xs text-gray-400">Service Fee (0.5%)</p>
+                  <p className="mb-1.5 text-xs text-gray-400">{isTimeLocked ? 'Service Fee (none for time-locked escrows)' : 'Service Fee (0.5%)'}</p>
                   <div className="flex items-center gap-1">
-                    <p className="text-sm text-white">{(totalAmount * 0.005).toFixed(4)}</p>
-                    <img src={suiLogo} alt="SUI" className="h-3.5 w-3.5" />
-                    <p className="text-sm text-white">SUI</p>
+                    <p className="text-sm text-white">{formatAmount(totalFee, decimals)}</p>
+                    {coinInfo?.iconUrl && <img src={coinInfo.iconUrl} alt={coinInfo.symbol} className="h-3.5 w-3.5" />}
+                    <p className="text-sm text-white">{coinInfo?.symbol}</p>
                   </div>
                 </div>
                 <div className="col-span-2">
                   <p className="mb-1.5 text-xs text-gray-400">Estimated Gas Fee</p>
                   <div className="flex items-center gap-1">
-                    <p className="text-sm text-white">~0.01</p>
+                    <p className="text-sm text-white">~{formatAmount(ESTIMATED_GAS_BUDGET * BigInt(Math.max(chunks.length, 1)), 9)}</p>
                     <img src={suiLogo} alt="SUI" className="h-3.5 w-3.5" />
                     <p className="text-sm text-white">SUI (PTB Transaction)</p>
                   </div>
                 </div>
               </div>
 
+              {shortfall && !isBatchComplete && (
+                <Alert className="border-red-500/50 bg-red-500/20">
+                  <AlertCircle className="h-4 w-4 text-red-300" />
+                  <AlertDescription className="text-sm text-red-200">
+                    {shortfall}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Chunk Progress */}
+              {chunks.length > 1 && (
+                <div className="space-y-3 rounded-lg border border-slate-600/50 bg-slate-700/50 p-4">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-white">
+                      Split into {chunks.length} transactions of up to {isTimeLocked ? MAX_ESCROWS_PER_TX : MAX_RECIPIENTS_PER_TX} recipients
+                    </span>
+                    <span className="text-gray-400">{completedChunks} / {chunks.length} sent</span>
+                  </div>
+                  <Progress value={(completedChunks / chunks.length) * 100} className="bg-slate-600 [&>[data-slot=progress-indicator]]:bg-cyan-500" />
+                </div>
+              )}
+
+              {chunks.some(chunk => chunk.status !== 'pending') && (
+                <div className="divide-y divide-slate-700/50 overflow-hidden rounded-lg border border-slate-600/50 bg-slate-800/30">
+                  {chunks.map((chunk, idx) => (
+                    <div key={chunk.start} className="flex items-center gap-3 px-4 py-3 text-sm">
+                      {chunk.status === 'success' && <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-400" />}
+                      {chunk.status === 'failed' && <AlertCircle className="h-4 w-4 shrink-0 text-red-400" />}
+                      {chunk.status === 'executing' && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-cyan-400" />}
+                      {chunk.status === 'pending' && <Clock className="h-4 w-4 shrink-0 text-slate-500" />}
+                      <div className="min-w-0 flex-1">
+                        <p className="text-white">
+                          Transaction {idx + 1}
+                          <span className="ml-2 text-xs text-gray-400">
+                            recipients {chunk.start + 1}–{chunk.end} · {formatAmount(chunkTotal(chunk), decimals)} {coinInfo?.symbol}
+                          </span>
+                        </p>
+                        {chunk.digest && (
+                          <a
+                            href={`https://suiscan.xyz/testnet/tx/${chunk.digest}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block truncate font-mono text-xs text-emerald-300 underline hover:text-emerald-200"
+                          >
+                            {chunk.digest}
+                          </a>
+                        )}
+                        {chunk.error && <p className="break-all text-xs text-red-300">{chunk.error}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Execute Button */}
-              <Button 
-                onClick={executeBatch}
-                disabled={isExecuting}
-                className="w-full gap-2 bg-linear-to-r from-blue-600 to-cyan-600 py-6 shadow-lg shadow-blue-500/25 hover:from-blue-700 hover:to-cyan-700 text-white"
-                size="lg"
-              >
-                <Zap className="h-5 w-5" />
-                {isExecuting ? 'Processing Transaction...' : 'Execute Batch Transaction'}
-              </Button>
+              {!isBatchComplete && (
+                <Button 
+                  onClick={executeBatch}
+                  disabled={isExecuting || !!shortfall}
+                  className="w-full gap-2 bg-linear-to-r from-blue-600 to-cyan-600 py-6 shadow-lg shadow-blue-500/25 hover:from-blue-700 hover:to-cyan-700 text-white"
+                  size="lg"
+                >
+                  <Zap className="h-5 w-5" />
+                  {isExecuting
+                    ? 'Processing Transaction...'
+                    : completedChunks > 0 || chunks.some(chunk => chunk.status === 'failed')
+                      ? `Resume from Transaction ${completedChunks + 1} of ${chunks.length}`
+                      : chunks.length > 1
+                        ? `Execute ${chunks.length} Batch Transactions`
+                        : 'Execute Batch Transaction'}
+                </Button>
+              )}
 
-              {transactionDigest && (
+              {isBatchComplete && (
                 <Alert className="border-emerald-500/50 bg-emerald-500/20">
                   <CheckCircle2 className="h-4 w-4 text-emerald-300" />
                   <AlertDescription className="text-sm text-emerald-200">
-                    <div className="mb-2 font-semibold">Transaction Successful!</div>
-                    <a
-                      href={`https://suiscan.xyz/testnet/tx/${transactionDigest}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="block break-all rounded bg-emerald-500/30 border border-emerald-500/50 p-3 font-mono text-xs text-white hover:bg-emerald-500/40 transition-colors underline"
-                    >
-                      View on SuiScan: {transactionDigest}
-                    </a>
+                    <div className="mb-2 font-semibold">
+                      {chunks.length > 1 ? `All ${chunks.length} Transactions Successful!` : 'Transaction Successful!'}
+                    </div>
+                    {chunks.length === 1 && (
+                      <a
+                        href={`https://suiscan.xyz/testnet/tx/${chunks[0].digest}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block break-all rounded bg-emerald-500/30 border border-emerald-500/50 p-3 font-mono text-xs text-white hover:bg-emerald-500/40 transition-colors underline"
+                      >
+                        View on SuiScan: {chunks[0].digest}
+                      </a>
+                    )}
                   </AlertDescription>
                 </Alert>
               )}
 
               <Button 
                 variant="outline"
-                onClick={() => {
-                  setCurrentStep(1);
-                  setCsvInput('');
-                  setRecipients([]);
-                }}
+                onClick={startNewBatch}
                 className="w-full border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
               >
                 Create New Batch
@@ -603,6 +1083,19 @@ export function BatchCreate({ walletAddress }: BatchCreateProps) {
           </Card>
         </div>
       )}
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title={
+          pendingChunkIndex !== null && chunks.length > 1
+            ? `Review Transaction ${pendingChunkIndex + 1} of ${chunks.length}`
+            : `Review Batch of ${recipients.length} Recipients`
+        }
+        confirmLabel="Sign Batch Transaction"
+        onConfirm={signBatch}
+        onCancel={cancelReview}
+      />
     </div>
   );
 }
\ No newline at end of file
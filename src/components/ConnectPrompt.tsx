@@ -0,0 +1,30 @@
+import { Lock } from 'lucide-react';
+import { ConnectButton } from '@mysten/dapp-kit';
+import { Card, CardContent } from '../ui/card';
+
+interface ConnectPromptProps {
+  escrowId: string;
+}
+
+// Shown when a shared claim link is opened before a wallet is connected
+export function ConnectPrompt({ escrowId }: ConnectPromptProps) {
+  return (
+    <div className="mx-auto max-w-xl">
+      <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+        <CardContent className="py-12 text-center">
+          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-2xl bg-cyan-500/10 ring-1 ring-cyan-500/30">
+            <Lock className="h-7 w-7 text-cyan-400" />
+          </div>
+          <p className="mb-2 text-lg text-white">Someone sent you an escrow</p>
+          <p className="mb-6 text-sm text-gray-400">
+            Connect the wallet it was sent to to review and claim it.
+          </p>
+          <div className="flex justify-center">
+            <ConnectButton />
+          </div>
+          <p className="mt-6 break-all font-mono text-xs text-gray-500">{escrowId}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,28 @@
 import { useEffect, useState } from 'react';
-import { useSuiClient } from '@mysten/dapp-kit';
+import type { Transaction } from '@mysten/sui/transactions';
 import suiLogo from '../assets/sui-logo.png';
+import { formatAmount } from '../lib/amount';
+import { coinSymbolFromType } from '../lib/coinRegistry';
+import {
+  buildCancelEscrowTransaction,
+  formatTimeRemaining,
+  getCancelBlockedReason,
+  getClaimStatus,
+  isEscrowExpired,
+  type EscrowRef,
+} from '../lib/escrow';
+import type { EscrowRecord } from '../lib/escrowQuery';
+import {
+  getMilestoneStatus,
+  summarizeMilestones,
+  type MilestoneEscrow,
+} from '../lib/milestones';
+import { useEscrows, useMilestoneEscrows } from '../hooks/useEscrows';
+import { useBatchHistory } from '../hooks/useBatchHistory';
+import { useCancelEscrow } from '../hooks/useTransactionMutations';
+import { useCoinInfos } from '../hooks/useCoinInfo';
+import { TransactionReview } from './TransactionReview';
+import { NftPreviewCard } from './NftPreviewCard';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
@@ -10,10 +32,15 @@ import {
   ExternalLink, 
   Shield,
   CheckCircle2,
-  XCircle,
   Loader2,
   Wallet,
-  ArrowUpRight
+  ArrowUpRight,
+  Undo2,
+  Hourglass,
+  Flag,
+  Scale,
+  History,
+  DatabaseBackup
 } from 'lucide-react';
 
 interface DashboardProps {
@@ -29,251 +56,185 @@ interface BatchTransaction {
   recipients: number;
   status: string;
   createdAt: string;
+  /** Set for time-locked batches, which lock one escrow per recipient. */
+  unlockTime?: string;
+  claimed?: number;
+  /** Time-locked batches only: escrows not claimed yet, which the creator can cancel until they unlock. */
+  openEscrows?: EscrowRef[];
 }
 
-interface EscrowData {
-  id: string;
+interface LockedAsset {
   assetType: string;
   amount: string;
+  nftId?: string;
+  /** Full types and raw unlock time, needed to build Move calls on this escrow. */
+  ref: EscrowRef;
+}
+
+// One agreement: a single escrow, or a bundle of escrows locked together for the same receiver
+interface EscrowData {
+  /** ID of the first escrow in the agreement, which opens the whole bundle on the approval page. */
+  id: string;
+  assets: LockedAsset[];
   counterparty: string;
   condition: string;
   unlockTime?: string;
   createdAt: string;
   isCreator: boolean;
   isRecipient: boolean;
-  nftId?: string;
+  /** Set when the wallet is the escrow's arbiter, which may also make it one of the parties. */
+  isArbiter: boolean;
+  /** Terms shared by every escrow in the agreement. */
+  ref: EscrowRef;
+}
+
+interface MilestoneEscrowData {
+  escrow: MilestoneEscrow;
+  symbol: string;
+  /** Unknown when the coin has no metadata, in which case amounts are shown in base units. */
+  decimals?: number;
 }
 
+const toEscrowRef = (record: EscrowRecord): EscrowRef => ({
+  id: record.id,
+  assetType: record.assetType,
+  paymentType: record.paymentType,
+  isNft: record.isNft,
+  unlockTime: record.unlockTime,
+  expiryTime: record.expiryTime,
+  arbiter: record.arbiter,
+});
+
 export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: DashboardProps) {
-  const suiClient = useSuiClient();
-  const [batches, setBatches] = useState<BatchTransaction[]>([]);
-  const [escrows, setEscrows] = useState<EscrowData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isLoadingEscrows, setIsLoadingEscrows] = useState(true);
+  const { mutate: signAndExecute } = useCancelEscrow();
+  // Escrows cancelled here, hidden until the next refresh finds them closed
+  const [closedEscrowIds, setClosedEscrowIds] = useState<string[]>([]);
+  // Every escrow of the agreement being cancelled, so a bundle is hidden as a whole
+  const [cancellingIds, setCancellingIds] = useState<string[] | null>(null);
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const packageId = import.meta.env.VITE_PACKAGE_ID;
 
-  useEffect(() => {
-    // Reset states when wallet changes
-    setBatches([]);
-    setEscrows([]);
-    
-    const fetchTransactions = async () => {
-      if (!walletConnected || !walletAddress || !packageId) {
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      
-      // Add small delay to ensure wallet is fully connected
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      try {
-        const result = await suiClient.queryTransactionBlocks({
-          filter: {
-            FromAddress: walletAddress,
-          },
-          options: {
-            showEvents: true,
-            showEffects: true,
-            showInput: true,
-          },
-          order: "descending",
-          limit: 20,
-        });
-
-        const platformBatches = result.data
-          .map((tx) => {
-            // Find the BatchTokenEvent
-            const batchEvent = tx.events?.find((e) => 
-              e.type.startsWith(`${packageId}::batch::BatchTokenEvent`)
-            );
+  // Both read the same activity index, which `activity` also controls
+  const owner = walletConnected ? walletAddress : null;
+  const { data: escrowRecords = [], ...activity } = useEscrows(owner);
+  const { data: batchRecords = [] } = useBatchHistory(owner);
+  const milestoneQuery = useMilestoneEscrows(owner);
+  const milestoneRecords = milestoneQuery.data?.pages.flatMap((page) => page.escrows) ?? [];
+  const isLoading = activity.isLoading;
 
-            if (!batchEvent) return null;
-
-            // Extract generic type for Token (e.g. 0x...::sui::SUI)
-            const tokenTypeMatch = batchEvent.type.match(/<(.+)>/);
-            const tokenType = tokenTypeMatch ? tokenTypeMatch[1] : 'Unknown';
-            const tokenSymbol = tokenType.split('::').pop() || 'Unknown';
-
-            const parsedJson = batchEvent.parsedJson as any;
-            
-            // Determine decimals
-            let decimals = 9;
-            if (tokenSymbol === 'USDC') decimals = 6;
-            
-            const totalVal = (Number(parsedJson.total_amount) / Math.pow(10, decimals)).toLocaleString(undefined, {
-              maximumFractionDigits: 4
-            });
-
-            return {
-              id: tx.digest,
-              totalValue: totalVal,
-              token: tokenSymbol,
-              recipients: Number(parsedJson.recipient_count),
-              status: tx.effects?.status.status === 'success' ? 'executed' : 'failed',
-              createdAt: new Date(Number(tx.timestampMs)).toISOString(),
-            };
-          })
-          .filter((b): b is BatchTransaction => b !== null);
-
-        setBatches(platformBatches);
-      } catch (error) {
-        console.error("Error fetching transactions:", error);
-      } finally {
-        setIsLoading(false);
-      }
+  // Keeps expiry countdowns and reclaim eligibility current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const openEscrows = new Map(escrowRecords.map((escrow) => [escrow.id, escrow]));
+  // Escrows of the wallet's time-locked batches are shown on their batch card, not one by one
+  const batchEscrowIds = new Set(batchRecords.flatMap((batch) => batch.escrowIds ?? []));
+
+  const coinInfos = useCoinInfos([
+    ...batchRecords.map((batch) => batch.tokenType),
+    ...escrowRecords.filter((escrow) => !escrow.isNft).map((escrow) => escrow.assetType),
+    ...milestoneRecords.map((escrow) => escrow.coinType),
+  ]);
+
+  const milestoneEscrows: MilestoneEscrowData[] = milestoneRecords
+    .filter((escrow) => !summarizeMilestones(escrow).completed)
+    .map((escrow) => {
+      const coinInfo = coinInfos.get(escrow.coinType);
+      return {
+        escrow,
+        symbol: coinInfo?.symbol || coinSymbolFromType(escrow.coinType),
+        decimals: coinInfo?.decimals,
+      };
+    });
+
+  const batches: BatchTransaction[] = batchRecords.map((batch) => {
+    const coinInfo = coinInfos.get(batch.tokenType);
+    const claimed = batch.escrowIds?.filter((id) => !openEscrows.has(id)).length;
+
+    // Batches are read from their events, which only successful transactions emit
+    let status = 'executed';
+    if (batch.escrowIds && claimed !== batch.escrowIds.length) {
+      status = batch.unlockTime! > now ? 'locked' : 'claimable';
+    }
+
+    return {
+      id: batch.digest,
+      // Without metadata the decimals are unknown, so show base units
+      totalValue: coinInfo
+        ? formatAmount(batch.total, coinInfo.decimals, { maxFractionDigits: 4 })
+        : batch.total.toString(),
+      token: coinInfo?.symbol || coinSymbolFromType(batch.tokenType),
+      recipients: batch.recipients,
+      status,
+      createdAt: new Date(batch.createdAt).toISOString(),
+      unlockTime: batch.unlockTime ? new Date(batch.unlockTime).toISOString() : undefined,
+      claimed,
+      openEscrows: batch.escrowIds?.flatMap((id) => {
+        const escrow = openEscrows.get(id);
+        return escrow && !closedEscrowIds.includes(id) ? [toEscrowRef(escrow)] : [];
+      }),
     };
-
-    const fetchEscrows = async () => {
-      if (!walletConnected || !walletAddress || !packageId) {
-        setIsLoadingEscrows(false);
-        return;
-      }
-
-      setIsLoadingEscrows(true);
-      
-      // Add small delay to ensure wallet is fully connected
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      try {
-        const escrowData: EscrowData[] = [];
-        const seenEscrowIds = new Set<string>(); // Prevent duplicates
-        const potentialEscrows: any[] = [];
-
-        // STRATEGY 1: Fetch by FromAddress (Creator - Reliable)
-        console.log('Fetching creator transactions...');
-        const creatorTxs = await suiClient.queryTransactionBlocks({
-          filter: { FromAddress: walletAddress },
-          options: { showEvents: true, showEffects: true },
-          order: "descending",
-          limit: 50,
-        });
-
-        for (const tx of creatorTxs.data) {
-          if (tx.events) {
-            potentialEscrows.push(...tx.events.filter(e => 
-              e.type.includes(`${packageId}::escrow::CoinLockEvent`) || 
-              e.type.includes(`${packageId}::escrow::NftLockEvent`)
-            ).map(e => ({ ...e, timestampMs: tx.timestampMs })));
-          }
-        }
-
-        // STRATEGY 2: Fetch by Module Events (Recipient - Broader search)
-        console.log('Fetching module events for recipient...');
-        try {
-          const moduleEvents = await suiClient.queryEvents({
-            query: { MoveEventModule: { package: packageId, module: 'escrow' } },
-            order: "descending",
-            limit: 50,
-          });
-          
-          potentialEscrows.push(...moduleEvents.data);
-        } catch (err) {
-          console.warn("Module event query failed, falling back to recent txs", err);
-        }
-
-        // Process all found events
-        const currentAddr = walletAddress.toLowerCase();
-        const relevantEvents = potentialEscrows.filter((event) => {
-          const data = event.parsedJson as any;
-          const creator = String(data.creator).toLowerCase();
-          const recipient = String(data.recipient).toLowerCase();
-          // We want events where we are creator OR recipient
-          return creator === currentAddr || recipient === currentAddr;
-        });
-
-        // Check if escrows are still active (object exists)
-        if (relevantEvents.length > 0) {
-          const objectIds = relevantEvents.map((e) => (e.parsedJson as any).escrow_id);
-          const uniqueObjectIds = [...new Set(objectIds)]; // Deduplicate IDs for query
-          
-          // Fetch objects in chunks of 50
-          const chunkedIds = [];
-          for (let i = 0; i < uniqueObjectIds.length; i += 50) {
-            chunkedIds.push(uniqueObjectIds.slice(i, i + 50));
-          }
-
-          const activeObjectIds = new Set<string>();
-          
-          for (const chunk of chunkedIds) {
-            const objects = await suiClient.multiGetObjects({
-              ids: chunk,
-              options: { showOwner: true }
-            });
-            
-            objects.forEach((obj) => {
-              if (obj.data && !obj.error) {
-                activeObjectIds.add(obj.data.objectId);
-              }
-            });
-          }
-
-          // Build final list
-          for (const event of relevantEvents) {
-            const data = event.parsedJson as any;
-            
-            // Skip if object no longer exists (claimed/deleted)
-            if (!activeObjectIds.has(data.escrow_id)) continue;
-            
-            if (seenEscrowIds.has(data.escrow_id)) continue;
-            seenEscrowIds.add(data.escrow_id);
-
-            const isCoinEvent = event.type.includes('CoinLockEvent');
-            const isNftEvent = event.type.includes('NftLockEvent');
-            
-            let assetType = 'Unknown';
-            let amount = '1';
-            let nftId = undefined;
-
-            if (isCoinEvent) {
-              const tokenMatch = event.type.match(/<([^,]+),/);
-              const tokenType = tokenMatch ? tokenMatch[1].split('::').pop() : 'Unknown';
-              assetType = tokenType || 'Token';
-              
-              let decimals = 9;
-              if (assetType === 'USDC') decimals = 6;
-              
-              amount = (Number(data.amount) / Math.pow(10, decimals)).toLocaleString(undefined, {
-                maximumFractionDigits: 4
-              });
-            } else if (isNftEvent) {
-              const nftTypeMatch = event.type.match(/<([^,]+),/);
-              const nftType = nftTypeMatch ? nftTypeMatch[1].split('::').pop() : 'NFT';
-              assetType = nftType || 'NFT';
-              nftId = data.nft_id;
-            }
-
-            const recipientAddr = String(data.recipient).toLowerCase();
-            const isRecipient = recipientAddr === currentAddr;
-            const isCreator = String(data.creator).toLowerCase() === currentAddr;
-
-            escrowData.push({
-              id: data.escrow_id,
-              assetType,
-              amount,
-              counterparty: isCreator ? data.recipient : data.creator,
-              condition: Number(data.unlock_time) > 0 ? 'Time-Lock' : 'Recipient Approval',
-              unlockTime: Number(data.unlock_time) > 0 ? new Date(Number(data.unlock_time)).toISOString() : undefined,
-              createdAt: new Date(Number(event.timestampMs)).toISOString(),
-              isCreator,
-              isRecipient,
-              nftId,
-            });
-          }
-        }
-        
-        setEscrows(escrowData);
-      } catch (error) {
-        console.error("Error fetching escrows:", error);
-      } finally {
-        setIsLoadingEscrows(false);
-      }
+  });
+
+  const escrows: EscrowData[] = [];
+  // Escrows locked in one transaction for the same receiver are shown as one agreement
+  const agreements = new Map<string, EscrowData>();
+  const currentAddr = walletAddress.toLowerCase();
+
+  for (const record of escrowRecords) {
+    if (closedEscrowIds.includes(record.id) || batchEscrowIds.has(record.id)) continue;
+
+    let assetType: string;
+    let amount = '1';
+
+    if (record.isNft) {
+      assetType = coinSymbolFromType(record.assetType) || 'NFT';
+    } else {
+      const coinInfo = coinInfos.get(record.assetType);
+      assetType = coinInfo?.symbol || coinSymbolFromType(record.assetType);
+
+      // Without metadata the decimals are unknown, so show base units
+      amount = coinInfo
+        ? formatAmount(record.amount, coinInfo.decimals, { maxFractionDigits: 4 })
+        : record.amount;
+    }
+
+    const isRecipient = record.recipient.toLowerCase() === currentAddr;
+    const isCreator = record.creator.toLowerCase() === currentAddr;
+    const isArbiter = !!record.arbiter && record.arbiter.toLowerCase() === currentAddr;
+
+    const asset: LockedAsset = {
+      assetType,
+      amount,
+      nftId: record.nftId,
+      ref: toEscrowRef(record),
     };
 
-    fetchTransactions();
-    fetchEscrows();
-  }, [walletConnected, walletAddress, packageId, suiClient]);
+    const agreementKey = [record.digest, record.creator, record.recipient, record.paymentType].join(':');
+    const agreement = agreements.get(agreementKey);
+    if (agreement) {
+      agreement.assets.push(asset);
+      continue;
+    }
+
+    const escrow: EscrowData = {
+      id: record.id,
+      assets: [asset],
+      counterparty: isCreator ? record.recipient : record.creator,
+      condition: record.arbiter ? 'Arbiter' : record.unlockTime > 0 ? 'Time-Lock' : 'Recipient Approval',
+      unlockTime: record.unlockTime > 0 ? new Date(record.unlockTime).toISOString() : undefined,
+      createdAt: new Date(record.createdAt ?? 0).toISOString(),
+      isCreator,
+      isRecipient,
+      isArbiter,
+      ref: asset.ref,
+    };
+    agreements.set(agreementKey, escrow);
+    escrows.push(escrow);
+  }
 
   if (!walletConnected) {
     return (
@@ -301,16 +262,16 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
         className: 'bg-blue-500/20 text-blue-300 border-blue-500/50',
         icon: Clock 
       },
+      claimable: {
+        label: 'Claimable',
+        className: 'bg-cyan-500/20 text-cyan-300 border-cyan-500/50',
+        icon: Clock
+      },
       executed: { 
         label: 'Executed', 
         className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/50',
         icon: CheckCircle2 
       },
-      failed: {
-        label: 'Failed',
-        className: 'bg-red-500/20 text-red-300 border-red-500/50',
-        icon: XCircle
-      }
     };
     const conf = config[status as keyof typeof config] || config.pending;
     const Icon = conf.icon;
@@ -322,10 +283,56 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
     );
   };
 
+  // Cancels an agreement's escrows, or a time-locked batch's, which share their terms
+  const cancelEscrows = (refs: EscrowRef[]) => {
+    const blocked = getCancelBlockedReason(refs[0], now);
+    if (blocked) {
+      alert(blocked);
+      return;
+    }
+    setCancellingIds(refs.map((ref) => ref.id));
+    // Dry-run and review before the wallet is asked to sign
+    setPendingTransaction(buildCancelEscrowTransaction(packageId, refs));
+  };
+
+  const signCancel = () => {
+    if (!pendingTransaction || !cancellingIds) return;
+    const txb = pendingTransaction;
+    const escrowIds = cancellingIds;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      {
+        transaction: txb,
+      },
+      {
+        onSuccess: (result) => {
+          console.log('Escrow cancelled:', result);
+          setClosedEscrowIds((prev) => [...prev, ...escrowIds]);
+          setCancellingIds(null);
+        },
+        onError: (error) => {
+          console.error('Cancel failed:', error);
+          alert(`Cancel failed: ${error.message}`);
+          setCancellingIds(null);
+        },
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setCancellingIds(null);
+  };
+
   const viewOnExplorer = (objectId: string) => {
     window.open(`https://testnet.suivision.xyz/txblock/${objectId}`, '_blank');
   };
 
+  // Escrows the wallet only arbitrates get their own section; parties see theirs under Active Escrows
+  const ownEscrows = escrows.filter((escrow) => escrow.isCreator || escrow.isRecipient);
+  const arbitratedEscrows = escrows.filter((escrow) => !escrow.isCreator && !escrow.isRecipient);
+
   return (
     <div className="space-y-10">
       {/* Active Batches Section */}
@@ -337,7 +344,21 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
               Your recent batch transactions on the platform
             </p>
           </div>
-          {isLoading && <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />}
+          <div className="flex items-center gap-3">
+            {activity.isRefreshing && <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />}
+            {/* History is cached in this browser; rebuilding re-reads it from the chain */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={activity.rebuild}
+              disabled={activity.isRebuilding}
+              title="Clear the locally cached history and fetch it again"
+              className="gap-2 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+            >
+              <DatabaseBackup className="h-4 w-4" />
+              Rebuild Index
+            </Button>
+          </div>
         </div>
 
         {batches.length === 0 && !isLoading ? (
@@ -356,7 +377,9 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
                           <Shield className="h-5 w-5 text-white" />
                         </div>
                         <div>
-                          <CardTitle className="text-lg font-semibold text-white">Batch Transaction</CardTitle>
+                          <CardTitle className="text-lg font-semibold text-white">
+                            {batch.unlockTime ? 'Time-Locked Batch' : 'Batch Transaction'}
+                          </CardTitle>
                           <CardDescription className="text-sm text-gray-400">
                             {new Date(batch.createdAt).toLocaleDateString('en-US', { 
                               month: 'short', 
@@ -405,6 +428,43 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
                       </p>
                     </div>
                   </div>
+                  {batch.unlockTime && (
+                    <div className="mt-4 grid grid-cols-2 gap-6 border-t border-slate-700/50 pt-4 sm:grid-cols-3">
+                      <div>
+                        <p className="mb-1.5 text-sm text-gray-400">Unlocks</p>
+                        <p className="flex items-center gap-1.5 text-sm font-medium text-white">
+                          <Clock className="h-4 w-4 text-cyan-400" />
+                          {new Date(batch.unlockTime).toLocaleString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="mb-1.5 text-sm text-gray-400">Claimed</p>
+                        <p className="text-sm font-medium text-white">
+                          {batch.claimed} / {batch.recipients}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  {batch.openEscrows && batch.openEscrows.length > 0 && !getCancelBlockedReason(batch.openEscrows[0], now) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelEscrows(batch.openEscrows!)}
+                      disabled={cancellingIds !== null}
+                      className="mt-4 w-full gap-2 border-red-500/50 bg-red-500/10 text-red-300 hover:bg-red-500/20 hover:text-red-200"
+                    >
+                      {cancellingIds?.includes(batch.openEscrows[0].id) ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Undo2 className="h-4 w-4" />
+                      )}
+                      Cancel & Refund {batch.openEscrows.length} Unclaimed
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -421,16 +481,21 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
               Assets held in secure escrow with conditional release
             </p>
           </div>
-          {isLoadingEscrows && <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />}
+          {isLoading && <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />}
         </div>
 
-        {escrows.length === 0 && !isLoadingEscrows ? (
+        {ownEscrows.length === 0 && !isLoading ? (
           <div className="rounded-xl border border-slate-700/50 bg-slate-800/30 p-8 text-center">
             <p className="text-gray-400">No active escrows found for this wallet.</p>
           </div>
         ) : (
         <div className="grid gap-4 sm:grid-cols-2">
-          {escrows.map((escrow) => (
+          {ownEscrows.map((escrow) => {
+            const [asset] = escrow.assets;
+            const isBundle = escrow.assets.length > 1;
+            const cancelBlocked = getCancelBlockedReason(escrow.ref, now);
+            const isExpired = isEscrowExpired(escrow.ref, now);
+            return (
             <Card key={escrow.id} className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg hover:shadow-xl hover:border-slate-600/50 transition-all">
               <CardHeader className="pb-4">
                 <div className="flex items-start justify-between gap-4">
@@ -440,8 +505,14 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
                     </div>
                     <div>
                       <CardTitle className="flex items-center gap-2 text-lg font-semibold text-white">
-                        {escrow.assetType === 'SUI' && <img src={suiLogo} alt="SUI" className="h-5 w-5" />}
-                        {escrow.nftId ? 'NFT Escrow' : `$${escrow.assetType} Escrow`}
+                        {isBundle ? (
+                          'Bundle Escrow'
+                        ) : (
+                          <>
+                            {asset.assetType === 'SUI' && <img src={suiLogo} alt="SUI" className="h-5 w-5" />}
+                            {asset.nftId ? 'NFT Escrow' : `$${asset.assetType} Escrow`}
+                          </>
+                        )}
                       </CardTitle>
                       <CardDescription className="font-mono text-sm text-gray-400">
                         {escrow.id.slice(0, 10)}...
@@ -461,14 +532,24 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
               <CardContent className="space-y-5">
                 {/* Locked Amount - Prominent Display */}
                 <div className="rounded-xl bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30 p-4 shadow-lg shadow-purple-500/10">
-                  <p className="mb-2 text-sbg-linear-to-brt-purple-300">Locked Amount</p>
-                  <div className="flex items-baseline gap-2">
-                    <p className="text-3xl font-bold text-white">{escrow.amount}</p>
-                    <div className="flex items-center gap-1">
-                      {escrow.assetType === 'SUI' && <img src={suiLogo} alt="SUI" className="h-4 w-4" />}
-                      <span className="text-lg font-semibold text-purple-300">${escrow.assetType}</span>
+                  <p className="mb-2 text-sbg-linear-to-brt-purple-300">
+                    {isBundle ? `Locked Assets (${escrow.assets.length})` : 'Locked Amount'}
+                  </p>
+                  {escrow.assets.map((item) => item.nftId ? (
+                    <div key={item.ref.id} className="py-1">
+                      <NftPreviewCard nftId={item.nftId} escrowId={item.ref.id} fallbackName={item.assetType} compact />
                     </div>
-                  </div>
+                  ) : (
+                    <div key={item.ref.id} className="flex items-baseline gap-2">
+                      <p className={`font-bold text-white ${isBundle ? 'text-xl' : 'text-3xl'}`}>{item.amount}</p>
+                      <div className="flex items-center gap-1">
+                        {item.assetType === 'SUI' && <img src={suiLogo} alt="SUI" className="h-4 w-4" />}
+                        <span className="text-lg font-semibold text-purple-300">
+                          {item.nftId ? `${item.assetType} NFT` : `$${item.assetType}`}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
                 </div>
                 
                 {/* Details Grid */}
@@ -493,11 +574,30 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
                 <div className="space-y-3">
                   <div className="flex items-center justify-between rounded-lg bg-slate-700/50 border border-slate-600/50 p-3">
                     <span className="text-sm font-medium text-gray-300">Status</span>
-                    <Badge variant="outline" className="gap-1.5 border-amber-500/50 bg-amber-500/20 text-amber-300 font-medium">
-                      <Clock className="h-3.5 w-3.5" />
-                      Awaiting Approval
-                    </Badge>
+                    {isExpired ? (
+                      <Badge variant="outline" className="gap-1.5 border-red-500/50 bg-red-500/20 text-red-300 font-medium">
+                        <Hourglass className="h-3.5 w-3.5" />
+                        Expired
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="gap-1.5 border-amber-500/50 bg-amber-500/20 text-amber-300 font-medium">
+                        <Clock className="h-3.5 w-3.5" />
+                        {escrow.ref.arbiter ? 'Awaiting Settlement' : 'Awaiting Approval'}
+                      </Badge>
+                    )}
                   </div>
+
+                  {escrow.ref.expiryTime > 0 && !isExpired && (
+                    <div className="flex items-center justify-between rounded-lg bg-amber-500/10 border border-amber-500/30 p-3">
+                      <span className="flex items-center gap-1.5 text-sm font-medium text-amber-300">
+                        <Hourglass className="h-3.5 w-3.5" />
+                        Expires in {formatTimeRemaining(escrow.ref.expiryTime - now)}
+                      </span>
+                      <span className="text-sm font-semibold text-white">
+                        {new Date(escrow.ref.expiryTime).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </span>
+                    </div>
+                  )}
                   
                   {escrow.unlockTime && (
                     <div className="flex items-center justify-between rounded-lg bg-blue-500/20 border border-blue-500/30 p-3">
@@ -518,23 +618,259 @@ export function Dashboard({ walletConnected, walletAddress, onViewEscrow }: Dash
                  })}
                  */}
                   
-                  {escrow.isRecipient && escrow.condition === 'Recipient Approval' && (
+                  {escrow.isRecipient && getClaimStatus(escrow.ref, now) === 'claimable' && (
                     <Button
                       onClick={() => onViewEscrow?.(escrow.id)}
                       className="w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg shadow-blue-500/25 font-semibold text-white"
                       size="lg"
                     >
                       <CheckCircle2 className="h-4 w-4" />
-                      Review & Approve
+                      {escrow.condition === 'Time-Lock' ? 'Review & Claim' : 'Review & Approve'}
+                    </Button>
+                  )}
+
+                  {escrow.condition === 'Arbiter' && (
+                    <Button
+                      onClick={() => onViewEscrow(escrow.id)}
+                      className="w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg shadow-blue-500/25 font-semibold text-white"
+                      size="lg"
+                    >
+                      <Scale className="h-4 w-4" />
+                      {escrow.isCreator ? 'View & Release' : 'View & Refund'}
                     </Button>
                   )}
+
+                  {escrow.isCreator && !escrow.ref.arbiter && (
+                    <div className="space-y-1.5">
+                      <Button
+                        variant="outline"
+                        onClick={() => cancelEscrows(escrow.assets.map((asset) => asset.ref))}
+                        disabled={cancellingIds !== null || !!cancelBlocked}
+                        className={isExpired
+                          ? 'w-full gap-2 border-emerald-500/50 bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 hover:text-emerald-200'
+                          : 'w-full gap-2 border-red-500/50 bg-red-500/10 text-red-300 hover:bg-red-500/20 hover:text-red-200'}
+                      >
+                        {cancellingIds?.includes(escrow.id) ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Undo2 className="h-4 w-4" />
+                        )}
+                        {isExpired ? 'Reclaim' : 'Cancel & Refund'}
+                      </Button>
+                      {cancelBlocked && (
+                        <p className="text-center text-xs text-gray-400">{cancelBlocked}</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
-          ))}
+            );
+          })}
         </div>
         )}
       </section>
+
+      {/* Older history is loaded page by page for both batches and escrows */}
+      {activity.hasOlder && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={activity.loadOlder}
+            disabled={activity.isLoadingOlder}
+            className="gap-2 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+          >
+            {activity.isLoadingOlder ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+            Load Older Activity
+          </Button>
+        </div>
+      )}
+
+      {/* Arbitrated Escrows Section */}
+      {arbitratedEscrows.length > 0 && (
+        <section>
+          <div className="mb-6">
+            <h2 className="mb-2 text-2xl font-bold text-white">Escrows You Arbitrate</h2>
+            <p className="text-base text-gray-400">
+              Settle disputes by releasing to the receiver or refunding the creator
+            </p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {arbitratedEscrows.map((escrow) => (
+              <Card key={escrow.id} className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg hover:shadow-xl hover:border-slate-600/50 transition-all">
+                <CardHeader className="pb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-linear-to-br from-purple-500 to-pink-500 shadow-lg shadow-purple-500/20">
+                      <Scale className="h-5 w-5 text-white" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-lg font-semibold text-white">
+                        {escrow.assets.length > 1 ? 'Bundle Escrow' : 'Arbiter Escrow'}
+                      </CardTitle>
+                      <CardDescription className="font-mono text-sm text-gray-400">
+                        {escrow.id.slice(0, 10)}...
+                      </CardDescription>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="rounded-xl bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30 p-4">
+                    <p className="mb-2 text-sm text-purple-300">Locked</p>
+                    {escrow.assets.map((item) => item.nftId ? (
+                      <div key={item.ref.id} className="py-1">
+                        <NftPreviewCard nftId={item.nftId} escrowId={item.ref.id} fallbackName={item.assetType} compact />
+                      </div>
+                    ) : (
+                      <p key={item.ref.id} className="text-xl font-bold text-white">
+                        {item.amount}{' '}
+                        <span className="text-lg font-semibold text-purple-300">
+                          {item.nftId ? `${item.assetType} NFT` : `$${item.assetType}`}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+
+                  <div className="rounded-lg bg-slate-700/50 border border-slate-600/50 p-3">
+                    <p className="mb-1.5 text-xs font-medium text-gray-400 uppercase tracking-wide">Creator</p>
+                    <p className="font-mono text-sm text-white break-all">{escrow.counterparty}</p>
+                  </div>
+
+                  <Button
+                    onClick={() => onViewEscrow(escrow.id)}
+                    className="w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg shadow-blue-500/25 font-semibold text-white"
+                  >
+                    <Scale className="h-4 w-4" />
+                    Review Dispute
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Milestone Escrows Section */}
+      {(milestoneEscrows.length > 0 || milestoneQuery.hasNextPage) && (
+        <section>
+          <div className="mb-6">
+            <h2 className="mb-2 text-2xl font-bold text-white">Milestone Escrows</h2>
+            <p className="text-base text-gray-400">
+              Payments released milestone by milestone
+            </p>
+          </div>
+
+          {milestoneEscrows.length === 0 && (
+            <div className="rounded-xl border border-slate-700/50 bg-slate-800/30 p-8 text-center">
+              <p className="text-gray-400">No active milestone escrows in recent activity.</p>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {milestoneEscrows.map(({ escrow, symbol, decimals }) => {
+              const summary = summarizeMilestones(escrow, now);
+              const fmt = (value: bigint) =>
+                decimals !== undefined ? formatAmount(value, decimals, { maxFractionDigits: 4 }) : value.toString();
+              const isCreator = escrow.creator.toLowerCase() === walletAddress.toLowerCase();
+              const claimedCount = escrow.milestones.filter((m) => m.claimed).length;
+              const awaitingApproval = escrow.milestones.filter((m) => getMilestoneStatus(m, now) === 'pending').length;
+
+              return (
+                <Card key={escrow.id} className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg hover:shadow-xl hover:border-slate-600/50 transition-all">
+                  <CardHeader className="pb-4">
+                    <div className="flex items-center gap-3">
+                      <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-linear-to-br from-purple-500 to-pink-500 shadow-lg shadow-purple-500/20">
+                        <Flag className="h-5 w-5 text-white" />
+                      </div>
+                      <div>
+                        <CardTitle className="text-lg font-semibold text-white">${symbol} Milestone Escrow</CardTitle>
+                        <CardDescription className="font-mono text-sm text-gray-400">
+                          {escrow.id.slice(0, 10)}...
+                        </CardDescription>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="rounded-xl bg-gradient-to-br from-purple-500/20 to-pink-500/20 border border-purple-500/30 p-4">
+                      <p className="mb-2 text-sm text-purple-300">Remaining Locked</p>
+                      <p className="text-3xl font-bold text-white">
+                        {fmt(summary.locked)} <span className="text-lg font-semibold text-purple-300">${symbol}</span>
+                      </p>
+                      <p className="mt-1 text-sm text-gray-400">of {fmt(summary.total)} ${symbol}</p>
+                    </div>
+
+                    <div className="flex gap-1.5">
+                      {escrow.milestones.map((milestone, i) => {
+                        const status = getMilestoneStatus(milestone, now);
+                        const color = {
+                          pending: 'bg-slate-600',
+                          approved: 'bg-blue-500',
+                          claimable: 'bg-cyan-400',
+                          claimed: 'bg-emerald-500',
+                        }[status];
+                        return <div key={i} title={`Milestone ${i + 1}: ${status}`} className={`h-2 flex-1 rounded-full ${color}`} />;
+                      })}
+                    </div>
+
+                    <div className="rounded-lg bg-slate-700/50 border border-slate-600/50 p-3">
+                      <p className="mb-1.5 text-xs font-medium text-gray-400 uppercase tracking-wide">
+                        {isCreator ? 'Receiver' : 'Creator'}
+                      </p>
+                      <p className="font-mono text-sm text-white break-all">{isCreator ? escrow.recipient : escrow.creator}</p>
+                    </div>
+
+                    <div className="flex items-center justify-between rounded-lg bg-slate-700/50 border border-slate-600/50 p-3 text-sm">
+                      <span className="text-gray-300">{claimedCount} / {escrow.milestones.length} milestones claimed</span>
+                      {isCreator && awaitingApproval > 0 && (
+                        <Badge variant="outline" className="border-amber-500/50 bg-amber-500/20 text-amber-300">
+                          {awaitingApproval} awaiting your approval
+                        </Badge>
+                      )}
+                      {!isCreator && summary.claimable > 0n && (
+                        <Badge variant="outline" className="border-cyan-500/50 bg-cyan-500/20 text-cyan-300">
+                          {fmt(summary.claimable)} ${symbol} claimable
+                        </Badge>
+                      )}
+                    </div>
+
+                    <Button
+                      onClick={() => onViewEscrow(escrow.id)}
+                      className="w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg shadow-blue-500/25 font-semibold text-white"
+                    >
+                      <Flag className="h-4 w-4" />
+                      {isCreator ? 'Manage Milestones' : 'View Milestones'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {/* Milestone locks of every wallet are scanned, so older ones are read on request */}
+          {milestoneQuery.hasNextPage && (
+            <div className="mt-6 flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => milestoneQuery.fetchNextPage()}
+                disabled={milestoneQuery.isFetchingNextPage}
+                className="gap-2 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+              >
+                {milestoneQuery.isFetchingNextPage ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+                Load Older Milestone Escrows
+              </Button>
+            </div>
+          )}
+        </section>
+      )}
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title="Review Cancel & Refund"
+        confirmLabel="Sign & Cancel Escrow"
+        onConfirm={signCancel}
+        onCancel={cancelReview}
+      />
     </div>
   );
 }
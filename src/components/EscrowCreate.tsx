@@ -5,11 +5,24 @@ import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
 import { Alert, AlertDescription } from '../ui/alert';
-import { TokenSelector, type TokenType } from './TokenSelector';
+import { Switch } from '../ui/switch';
+import { TokenSelector } from './TokenSelector';
+import { TransactionReview } from './TransactionReview';
 import { Transaction } from '@mysten/sui/transactions';
-import { useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { useSuiClient } from '@mysten/dapp-kit';
 import suiLogo from '../assets/sui-logo.png';
-import yetiImage from '../assets/yeti1.jpg';
+import { getCoinInfo, isSuiCoinType, SUI_COIN_TYPE } from '../lib/coinRegistry';
+import { formatAmount, getAmountError, parseAmount, tryParseAmount } from '../lib/amount';
+import { useCoinInfo, useCoinInfos } from '../hooks/useCoinInfo';
+import { useBalanceChecks } from '../hooks/useBalanceCheck';
+import { useCreateEscrow } from '../hooks/useTransactionMutations';
+import { getArbiterError, getExpiryError, MAX_BUNDLE_ASSETS } from '../lib/escrow';
+import { getEscrowClaimUrl } from '../lib/routes';
+import { addLockMilestonesCall, getMilestoneErrors, MAX_MILESTONES, type MilestoneInput } from '../lib/milestones';
+import { fetchNftForLock, type NftInfo } from '../lib/nfts';
+import { NftImage, NftPicker } from './NftPicker';
+import { NftPreviewCard } from './NftPreviewCard';
+import { QRCodeSVG } from 'qrcode.react';
 import { 
   Lock, 
   Clock, 
@@ -19,6 +32,17 @@ import {
   CheckCircle2,
   ExternalLink,
   ArrowLeft,
+  AlertTriangle,
+  Hourglass,
+  ArrowLeftRight,
+  Copy,
+  Check,
+  Link2,
+  Plus,
+  Trash2,
+  Flag,
+  Scale,
+  Images,
 } from 'lucide-react';
 
 interface EscrowCreateProps {
@@ -26,24 +50,153 @@ interface EscrowCreateProps {
   prefilledReceiver?: string;
 }
 
-type ReleaseCondition = 'recipient' | 'timelock';
+type ReleaseCondition = 'recipient' | 'timelock' | 'milestones' | 'arbiter';
 type AssetCategory = 'token' | 'nft';
 
+// One asset of the agreement; each is locked as its own escrow in the same transaction
+interface AssetInput {
+  key: string;
+  category: AssetCategory;
+  coinType: string;
+  amount: string;
+  nftObjectId: string;
+  /** Set when the NFT was chosen in the picker, for its preview. */
+  nft: NftInfo | null;
+}
+
+const OBJECT_ID = /^0x[0-9a-fA-F]{1,64}$/;
+
+const newAsset = (category: AssetCategory): AssetInput => ({
+  key: crypto.randomUUID(),
+  category,
+  coinType: SUI_COIN_TYPE,
+  amount: '',
+  nftObjectId: '',
+  nft: null,
+});
+
 export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCreateProps) {
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutate: signAndExecute } = useCreateEscrow();
   const suiClient = useSuiClient();
   const packageId = import.meta.env.VITE_PACKAGE_ID || '';
 
-  const [assetCategory, setAssetCategory] = useState<AssetCategory>('token');
-  const [assetType, setAssetType] = useState<TokenType>('SUI');
-  const [amount, setAmount] = useState('');
-  const [nftObjectId, setNftObjectId] = useState('');
+  const [assets, setAssets] = useState<AssetInput[]>(() => [newAsset('token')]);
+  const [isPriced, setIsPriced] = useState(false);
+  const [paymentType, setPaymentType] = useState(SUI_COIN_TYPE);
+  const [price, setPrice] = useState('');
   const [receiver, setReceiver] = useState(prefilledReceiver);
   const [releaseCondition, setReleaseCondition] = useState<ReleaseCondition>('recipient');
   const [unlockTime, setUnlockTime] = useState('');
+  const [arbiter, setArbiter] = useState('');
+  const [milestones, setMilestones] = useState<MilestoneInput[]>([
+    { amount: '', unlockDate: '' },
+    { amount: '', unlockDate: '' },
+  ]);
+  const [enableExpiry, setEnableExpiry] = useState(false);
+  const [expiryTime, setExpiryTime] = useState('');
   const [escrowCreated, setEscrowCreated] = useState(false);
   const [escrowObjectId, setEscrowObjectId] = useState('');
+  const [transactionDigest, setTransactionDigest] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [pickerAssetKey, setPickerAssetKey] = useState<string | null>(null);
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+
+  const isBundle = assets.length > 1;
+  const tokenAssets = assets.filter((asset) => asset.category === 'token');
+  const coinInfos = useCoinInfos([SUI_COIN_TYPE, ...tokenAssets.map((asset) => asset.coinType)]);
+
+  // Milestone escrows split a single token amount; the milestones set the amount
+  const isMilestones = releaseCondition === 'milestones';
+  const milestoneCoin = isMilestones && assets[0].category === 'token' ? coinInfos.get(assets[0].coinType) : undefined;
+  const milestonesAssetError = isMilestones && (isBundle || assets[0].category !== 'token')
+    ? 'Milestone escrows hold a single token. Remove the other assets or NFTs.'
+    : null;
+  const milestoneErrors = milestoneCoin ? getMilestoneErrors(milestones, milestoneCoin.decimals) : [];
+  const milestoneTotal = milestoneCoin
+    ? milestones.reduce((sum, m) => sum + (tryParseAmount(m.amount, milestoneCoin.decimals) ?? 0n), 0n)
+    : 0n;
+
+  // Arbiter escrows are settled by the creator, the receiver or a named third party
+  const isArbitrated = releaseCondition === 'arbiter';
+  const arbiterError = isArbitrated && arbiter ? getArbiterError(arbiter, walletAddress, receiver) : null;
+
+  const assetErrors = assets.map((asset, i) => {
+    const earlier = assets.slice(0, i);
+    if (asset.category === 'nft') {
+      return asset.nftObjectId && earlier.some((a) => a.category === 'nft' && a.nftObjectId === asset.nftObjectId)
+        ? 'This NFT is already in the escrow'
+        : null;
+    }
+    if (earlier.some((a) => a.category === 'token' && a.coinType === asset.coinType)) {
+      return 'This token is already in the escrow; combine the amounts';
+    }
+    const info = coinInfos.get(asset.coinType);
+    return asset.amount && info ? getAmountError(asset.amount, info.decimals) : null;
+  });
+  const hasIncompleteAsset = assets.some((asset) =>
+    asset.category === 'token' ? !asset.amount && !isMilestones : !asset.nftObjectId
+  );
+
+  // NFTs only spend SUI for gas, which the SUI entry (even at zero) checks
+  const suiInfo = coinInfos.get(SUI_COIN_TYPE);
+  const balanceRequirements = [
+    ...(suiInfo ? [{ coin: suiInfo, required: 0n }] : []),
+    ...(milestoneCoin ? [{ coin: milestoneCoin, required: milestoneTotal }] : []),
+    ...tokenAssets.flatMap((asset) => {
+      const coin = coinInfos.get(asset.coinType);
+      const required = coin && !isMilestones ? tryParseAmount(asset.amount, coin.decimals) : null;
+      return coin && required !== null ? [{ coin, required }] : [];
+    }),
+  ];
+  const { shortfall } = useBalanceChecks(walletAddress, balanceRequirements);
+
+  const describeAsset = (asset: AssetInput) =>
+    asset.category === 'token'
+      ? `${isMilestones && milestoneCoin ? formatAmount(milestoneTotal, milestoneCoin.decimals) : asset.amount || '0'} $${coinInfos.get(asset.coinType)?.symbol ?? '...'}`
+      : `NFT ${asset.nftObjectId ? `${asset.nftObjectId.slice(0, 8)}...` : ''}`.trim();
+
+  const updateAsset = (key: string, changes: Partial<AssetInput>) => {
+    setAssets((prev) => prev.map((asset) => (asset.key === key ? { ...asset, ...changes } : asset)));
+  };
+
+  const addAsset = (category: AssetCategory) => {
+    setAssets((prev) => [...prev, newAsset(category)]);
+    // A price can only be enforced on a single escrow object, see the Swap Price card
+    setIsPriced(false);
+  };
+
+  const removeAsset = (key: string) => {
+    setAssets((prev) => prev.filter((asset) => asset.key !== key));
+  };
+
+  const updateMilestone = (index: number, changes: Partial<MilestoneInput>) => {
+    setMilestones((prev) => prev.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  const changeReleaseCondition = (condition: ReleaseCondition) => {
+    setReleaseCondition(condition);
+    // Milestone and arbiter escrows have neither a price nor an expiry
+    if (condition === 'milestones' || condition === 'arbiter') {
+      setIsPriced(false);
+      setEnableExpiry(false);
+    }
+  };
+
+  // A price turns the escrow into a swap: the receiver pays it to the creator when claiming
+  const { data: paymentInfo } = useCoinInfo(isPriced ? paymentType : null);
+  const priceBaseUnits = paymentInfo ? tryParseAmount(price, paymentInfo.decimals) : null;
+  const priceError = price && paymentInfo
+    ? getAmountError(price, paymentInfo.decimals) ?? (priceBaseUnits === 0n ? 'Price must be greater than zero' : null)
+    : null;
+
+  const unlockTimestamp = releaseCondition === 'timelock' && unlockTime 
+    ? new Date(unlockTime).getTime() 
+    : 0; // 0 means immediate/recipient approval only
+  const expiryTimestamp = enableExpiry && expiryTime ? new Date(expiryTime).getTime() : 0;
+  const expiryError = enableExpiry
+    ? (expiryTime ? getExpiryError(unlockTimestamp, expiryTimestamp) : 'Choose an expiry date')
+    : null;
 
   const createEscrow = async () => {
     if (!walletAddress || !packageId) return;
@@ -51,121 +204,93 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
 
     try {
       const txb = new Transaction();
-      const paymentCoinType = '0x2::sui::SUI'; // Default payment type for the contract generic
-      
-      // Calculate unlock time in ms
-      const unlockTimestamp = releaseCondition === 'timelock' && unlockTime 
-        ? new Date(unlockTime).getTime() 
-        : 0; // 0 means immediate/recipient approval only
-
-      if (assetCategory === 'token') {
-        // 1. Determine Coin Type
-        let coinType = '0x2::sui::SUI';
-        if (assetType === 'USDC') {
-          coinType = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC';
-        } else if (assetType === 'OTHER') {
-           // Handle custom token if needed, for now default to SUI or alert
-        }
+      // Unpriced escrows still need a payment type for the contract generic; SUI is the default
+      const paymentCoinType = isPriced ? paymentType : SUI_COIN_TYPE;
+      const priceInBaseUnits = isPriced
+        ? parseAmount(price, (await getCoinInfo(suiClient, paymentType)).decimals)
+        : 0n;
 
-        // 2. Prepare Coin
-        const decimals = assetType === 'USDC' ? 6 : 9;
-        const amountInSmallestUnit = BigInt(Math.floor(parseFloat(amount) * Math.pow(10, decimals)));
+      // Escrows with an expiry use the `_with_expiry` entry points, which take one extra argument;
+      // arbiter escrows use `_with_arbiter`, which takes the arbiter instead of a price and unlock time
+      const lockSuffix = isArbitrated ? '_with_arbiter' : expiryTimestamp ? '_with_expiry' : '';
+      const lockArgs = isArbitrated
+        ? [txb.pure.address(arbiter)]
+        : [
+            txb.pure.u64(priceInBaseUnits),
+            txb.pure.u64(unlockTimestamp),
+            ...(expiryTimestamp ? [txb.pure.u64(expiryTimestamp)] : []),
+          ];
 
+      // Splits `amount` off the wallet's coins of `coinType`
+      const splitCoinToLock = async (coinType: string, amount: bigint) => {
+        const { symbol } = await getCoinInfo(suiClient, coinType);
         const coins = await suiClient.getCoins({ owner: walletAddress, coinType });
-        if (coins.data.length === 0) throw new Error(`No ${assetType} coins found`);
+        if (coins.data.length === 0) throw new Error(`No ${symbol} coins found`);
 
-        let coinToLock;
-        
-        if (coinType === '0x2::sui::SUI') {
+        if (isSuiCoinType(coinType)) {
             // For SUI, use splitCoins from gas
-            [coinToLock] = txb.splitCoins(txb.gas, [amountInSmallestUnit]);
-        } else {
-            // For other tokens, merge and split
-            const primaryCoin = txb.object(coins.data[0].coinObjectId);
-            if (coins.data.length > 1) {
-                txb.mergeCoins(primaryCoin, coins.data.slice(1).map(c => txb.object(c.coinObjectId)));
-            }
-            [coinToLock] = txb.splitCoins(primaryCoin, [amountInSmallestUnit]);
+            return txb.splitCoins(txb.gas, [amount])[0];
         }
+        // For other tokens, merge and split
+        const primaryCoin = txb.object(coins.data[0].coinObjectId);
+        if (coins.data.length > 1) {
+            txb.mergeCoins(primaryCoin, coins.data.slice(1).map(c => txb.object(c.coinObjectId)));
+        }
+        return txb.splitCoins(primaryCoin, [amount])[0];
+      };
 
-        // 3. Call lock_coin
-        txb.moveCall({
-          target: `${packageId}::escrow::lock_coin`,
-          typeArguments: [coinType, paymentCoinType],
-          arguments: [
-            coinToLock,
-            txb.pure.address(receiver),
-            txb.pure.u64(0), // Price is 0 for standard escrow
-            txb.pure.u64(unlockTimestamp),
-          ],
-        });
-
+      if (isMilestones) {
+        // One escrow funded with the milestones' total, paid out milestone by milestone
+        const [asset] = assets;
+        const { decimals } = await getCoinInfo(suiClient, asset.coinType);
+        const schedule = milestones.map((m) => ({
+          amount: parseAmount(m.amount, decimals),
+          unlockTime: m.unlockDate ? new Date(m.unlockDate).getTime() : 0,
+        }));
+        const total = schedule.reduce((sum, m) => sum + m.amount, 0n);
+        const coinToLock = await splitCoinToLock(asset.coinType, total);
+        addLockMilestonesCall(txb, packageId, asset.coinType, coinToLock, receiver, schedule);
       } else {
-        // NFT Logic
-        if (!nftObjectId) throw new Error("NFT Object ID required");
-        
-        // Fetch NFT object to get its type
-        const nftObj = await suiClient.getObject({
-            id: nftObjectId,
-            options: { showType: true }
-        });
-        
-        if (!nftObj.data || !nftObj.data.type) throw new Error("NFT not found or type unknown");
-        const nftType = nftObj.data.type;
-
-        txb.moveCall({
-            target: `${packageId}::escrow::lock_nft`,
-            typeArguments: [nftType, paymentCoinType],
-            arguments: [
-                txb.object(nftObjectId),
+        // Every asset gets its own escrow with the same receiver and terms, all locked atomically
+        for (const asset of assets) {
+          if (asset.category === 'token') {
+            // 1. Prepare Coin
+            const { decimals } = await getCoinInfo(suiClient, asset.coinType);
+            const coinToLock = await splitCoinToLock(asset.coinType, parseAmount(asset.amount, decimals));
+
+            // 2. Call lock_coin
+            txb.moveCall({
+              target: `${packageId}::escrow::lock_coin${lockSuffix}`,
+              typeArguments: [asset.coinType, paymentCoinType],
+              arguments: [
+                coinToLock,
                 txb.pure.address(receiver),
-                txb.pure.u64(0), // Price 0
-                txb.pure.u64(unlockTimestamp),
-            ]
-        });
-      }
+                ...lockArgs,
+              ],
+            });
 
-      signAndExecute(
-        { transaction: txb },
-        {
-          onSuccess: async (result) => {
-            console.log("Escrow created:", result);
-            
-            try {
-              // Query the transaction to get events
-              const txDetails = await suiClient.getTransactionBlock({
-                digest: result.digest,
-                options: { showEvents: true }
-              });
-              
-              // Extract escrow_id from CoinLockEvent or NftLockEvent
-              const lockEvent = txDetails.events?.find((e: any) => 
-                e.type.includes('::escrow::CoinLockEvent') || 
-                e.type.includes('::escrow::NftLockEvent')
-              );
-              
-              if (lockEvent && lockEvent.parsedJson) {
-                const eventData = lockEvent.parsedJson as any;
-                setEscrowObjectId(eventData.escrow_id);
-              } else {
-                // Fallback to digest if event not found
-                setEscrowObjectId(result.digest);
-              }
-            } catch (error) {
-              console.error("Error fetching transaction details:", error);
-              setEscrowObjectId(result.digest);
-            }
-            
-            setEscrowCreated(true);
-            setIsCreating(false);
-          },
-          onError: (err) => {
-            console.error(err);
-            alert("Failed to create escrow: " + err.message);
-            setIsCreating(false);
+          } else {
+            // NFT Logic
+            if (!asset.nftObjectId) throw new Error("NFT Object ID required");
+          
+            // Checks ownership and transferability, and gives the type `lock_nft` is called with
+            const { type: nftType } = await fetchNftForLock(suiClient, asset.nftObjectId, walletAddress);
+
+            txb.moveCall({
+                target: `${packageId}::escrow::lock_nft${lockSuffix}`,
+                typeArguments: [nftType, paymentCoinType],
+                arguments: [
+                    txb.object(asset.nftObjectId),
+                    txb.pure.address(receiver),
+                    ...lockArgs,
+                ]
+            });
           }
         }
-      );
+      }
+
+      // Dry-run and review before the wallet is asked to sign
+      setPendingTransaction(txb);
 
     } catch (error: any) {
       console.error(error);
@@ -174,12 +299,77 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
     }
   };
 
+  const signEscrow = () => {
+    if (!pendingTransaction) return;
+    const txb = pendingTransaction;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      { transaction: txb },
+      {
+        onSuccess: async (result) => {
+          console.log("Escrow created:", result);
+
+          let txDetails;
+          try {
+            // Wait for the transaction to be indexed so its events can be read
+            txDetails = await suiClient.waitForTransaction({
+              digest: result.digest,
+              options: { showEvents: true, showEffects: true }
+            });
+          } catch (error) {
+            console.error("Error fetching transaction details:", error);
+          }
+
+          if (txDetails && txDetails.effects?.status.status !== 'success') {
+            alert("Failed to create escrow: " + (txDetails.effects?.status.error || 'transaction failed'));
+            setIsCreating(false);
+            return;
+          }
+
+          // Extract escrow_id from CoinLockEvent, NftLockEvent or MilestoneLockEvent
+          const lockEvent = txDetails?.events?.find((e: any) => 
+            e.type.includes('::escrow::CoinLockEvent') || 
+            e.type.includes('::escrow::NftLockEvent') ||
+            e.type.includes('::milestone::MilestoneLockEvent')
+          );
+          // Without the lock event only the transaction is known, which is no claim link
+          setEscrowObjectId((lockEvent?.parsedJson as any)?.escrow_id ?? '');
+          setTransactionDigest(result.digest);
+          setEscrowCreated(true);
+          setIsCreating(false);
+        },
+        onError: (err) => {
+          console.error(err);
+          alert("Failed to create escrow: " + err.message);
+          setIsCreating(false);
+        }
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setIsCreating(false);
+  };
+
   const resetForm = () => {
     setEscrowCreated(false);
-    setAmount('');
-    setNftObjectId('');
+    setAssets([newAsset('token')]);
     setReceiver('');
     setUnlockTime('');
+    setArbiter('');
+    setMilestones([{ amount: '', unlockDate: '' }, { amount: '', unlockDate: '' }]);
+    setEnableExpiry(false);
+    setExpiryTime('');
+    setIsPriced(false);
+    setPrice('');
+  };
+
+  const copyClaimLink = () => {
+    navigator.clipboard.writeText(getEscrowClaimUrl(escrowObjectId));
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
   const viewOnExplorer = (objectId: string) => {
@@ -203,21 +393,69 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
             <Alert className="border-emerald-500/50 bg-emerald-500/20">
               <Shield className="h-4 w-4 text-emerald-300" />
               <AlertDescription className="text-sm text-emerald-200">
-                <div className="mb-2">Escrow Object ID:</div>
-                <div className="flex items-center justify-between gap-2 break-all rounded bg-emerald-500/30 border border-emerald-500/50 p-3 font-mono text-xs text-white">
-                  <span>{escrowObjectId}</span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => viewOnExplorer(escrowObjectId)}
-                    className="h-6 w-6 flex-shrink-0 p-0 text-emerald-300 hover:bg-emerald-500/30 hover:text-emerald-200"
-                  >
-                    <ExternalLink className="h-4 w-4" />
-                  </Button>
-                </div>
+                {escrowObjectId ? (
+                  <>
+                    <div className="mb-2">Escrow Object ID:</div>
+                    <div className="flex items-center justify-between gap-2 break-all rounded bg-emerald-500/30 border border-emerald-500/50 p-3 font-mono text-xs text-white">
+                      <span>{escrowObjectId}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => viewOnExplorer(escrowObjectId)}
+                        className="h-6 w-6 flex-shrink-0 p-0 text-emerald-300 hover:bg-emerald-500/30 hover:text-emerald-200"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="mb-2">
+                      The escrow ID could not be read from the transaction yet. Find the escrow on the Dashboard, or in the transaction:
+                    </div>
+                    <a
+                      href={`https://suiscan.xyz/testnet/tx/${transactionDigest}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block break-all rounded bg-emerald-500/30 border border-emerald-500/50 p-3 font-mono text-xs text-white underline hover:text-emerald-100"
+                    >
+                      {transactionDigest}
+                    </a>
+                  </>
+                )}
               </AlertDescription>
             </Alert>
 
+            {escrowObjectId && (
+              <div className="space-y-4 rounded-lg border border-cyan-500/30 bg-slate-700/50 p-4">
+                <h3 className="flex items-center gap-2 text-white">
+                  <Link2 className="h-5 w-5 text-cyan-400" />
+                  Claim Link
+                </h3>
+                <p className="text-sm text-gray-400">
+                  Send this link to the receiver. It opens the escrow's claim page directly once they connect their wallet.
+                </p>
+                <div className="flex flex-col items-center gap-4 sm:flex-row sm:items-start">
+                  <div className="rounded-lg bg-white p-3">
+                    <QRCodeSVG value={getEscrowClaimUrl(escrowObjectId)} size={132} />
+                  </div>
+                  <div className="w-full min-w-0 flex-1 space-y-3">
+                    <div className="break-all rounded border border-slate-600/50 bg-slate-900/50 p-3 font-mono text-xs text-gray-300">
+                      {getEscrowClaimUrl(escrowObjectId)}
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={copyClaimLink}
+                      className="w-full gap-2 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+                    >
+                      {linkCopied ? <Check className="h-4 w-4 text-emerald-400" /> : <Copy className="h-4 w-4" />}
+                      {linkCopied ? 'Copied' : 'Copy Link'}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-4 rounded-lg border border-slate-600/50 bg-slate-700/50 p-4">
               <h3 className="flex items-center gap-2 text-white">
                 <Lock className="h-5 w-5 text-purple-400" />
@@ -226,41 +464,72 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
               
               <div className="grid gap-4">
                 <div>
-                  <p className="mb-1.5 text-xs text-gray-400">Asset Category</p>
-                  <p className="text-white">{assetCategory === 'token' ? 'Token (Fungible)' : 'NFT (Non-Fungible)'}</p>
-                </div>
-                
-                {assetCategory === 'token' ? (
-                  <>
-                    <div>
-                      <p className="mb-1.5 text-xs text-gray-400">Token</p>
-                      <p className="text-white">${assetType}</p>
-                    </div>
-                    
-                    <div>
-                      <p className="mb-1.5 text-xs text-gray-400">Amount</p>
-                      <p className="font-mono text-sm text-white">{amount}</p>
-                    </div>
-                  </>
-                ) : (
-                  <div>
-                    <p className="mb-1.5 text-xs text-gray-400">NFT Object ID</p>
-                    <p className="font-mono text-xs text-gray-300 break-all">{nftObjectId}</p>
+                  <p className="mb-1.5 text-xs text-gray-400">{isBundle ? `Assets (${assets.length})` : 'Asset'}</p>
+                  <div className="space-y-1.5">
+                    {assets.map((asset) => (
+                      <div key={asset.key} className="text-white">
+                        {asset.category === 'token' ? (
+                          <span className="font-mono text-sm">{describeAsset(asset)}</span>
+                        ) : asset.nft ? (
+                          // The NFT is wrapped in the escrow now, so show what the picker loaded
+                          <div className="flex items-center gap-3">
+                            <NftImage nft={asset.nft} className="h-10 w-10 flex-shrink-0 rounded-md" />
+                            <div className="min-w-0">
+                              <p className="truncate text-sm">{asset.nft.name}</p>
+                              <p className="break-all font-mono text-xs text-gray-400">{asset.nftObjectId}</p>
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="break-all font-mono text-xs text-gray-300">NFT {asset.nftObjectId}</span>
+                        )}
+                      </div>
+                    ))}
                   </div>
-                )}
+                </div>
 
                 <div>
                   <p className="mb-1.5 text-xs text-gray-400">Receiver</p>
                   <p className="font-mono text-sm text-gray-300">{receiver}</p>
                 </div>
 
+                {isPriced && priceBaseUnits !== null && paymentInfo && (
+                  <div>
+                    <p className="mb-1.5 text-xs text-gray-400">Price</p>
+                    <p className="text-white">
+                      {formatAmount(priceBaseUnits, paymentInfo.decimals)} ${paymentInfo.symbol}, paid to you when the receiver claims
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <p className="mb-1.5 text-xs text-gray-400">Release Condition</p>
                   <p className="text-white">
                     {releaseCondition === 'recipient' && 'Recipient Approval Required'}
                     {releaseCondition === 'timelock' && `Time-Lock until ${new Date(unlockTime).toLocaleString()}`}
+                    {isMilestones && `${milestones.length} Milestones, each approved by you`}
+                    {isArbitrated && 'Arbiter: released by you or the arbiter, refunded by the receiver or the arbiter'}
                   </p>
+                  {isArbitrated && (
+                    <p className="mt-1.5 break-all font-mono text-sm text-gray-300">{arbiter}</p>
+                  )}
+                  {isMilestones && milestoneCoin && (
+                    <ol className="mt-2 space-y-1 text-sm text-gray-300">
+                      {milestones.map((m, i) => (
+                        <li key={i}>
+                          {i + 1}. {m.amount} ${milestoneCoin.symbol}
+                          {m.unlockDate && `, claimable from ${new Date(m.unlockDate).toLocaleString()}`}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
+
+                {expiryTimestamp > 0 && (
+                  <div>
+                    <p className="mb-1.5 text-xs text-gray-400">Expires</p>
+                    <p className="text-white">{new Date(expiryTimestamp).toLocaleString()} (reclaimable by you if unclaimed)</p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -274,7 +543,9 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
                 Create Another
               </Button>
               <Button 
-                onClick={() => viewOnExplorer(escrowObjectId)}
+                onClick={() => escrowObjectId
+                  ? viewOnExplorer(escrowObjectId)
+                  : window.open(`https://suiscan.xyz/testnet/tx/${transactionDigest}`, '_blank')}
                 className="w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg shadow-blue-500/25 text-white"
               >
                 <ExternalLink className="h-4 w-4" />
@@ -292,118 +563,142 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
       {/* Asset Selection */}
       <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
         <CardHeader>
-          <CardTitle className="text-white">Asset to Lock</CardTitle>
+          <CardTitle className="text-white">Assets to Lock</CardTitle>
           <CardDescription className="text-gray-400">
-            Choose the type of asset you want to place in escrow
+            Add one or more tokens and NFTs. They are locked together and the receiver claims them all in one transaction.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Asset Category Selection */}
-          <div className="space-y-3">
-            <Label className="text-base font-semibold">Asset Category</Label>
-            <div className="grid gap-4 sm:grid-cols-2">
-              <button
-                onClick={() => setAssetCategory('token')}
-                className={`group relative flex items-start gap-4 rounded-xl border-2 p-5 text-left transition-all ${
-                  assetCategory === 'token'
-                    ? 'border-cyan-500 bg-slate-900 shadow-lg shadow-cyan-500/20'
-                    : 'border-slate-700 bg-slate-900 hover:border-cyan-500/50 hover:shadow-md'
+          <div className="space-y-4">
+            {assets.map((asset, i) => (
+              <div
+                key={asset.key}
+                className={`space-y-4 rounded-xl border-2 bg-slate-900 p-4 ${
+                  asset.category === 'token' ? 'border-cyan-500/40' : 'border-purple-500/40'
                 }`}
               >
-                <div className={`flex h-12 w-12 items-center justify-center rounded-xl transition-all ${
-                  assetCategory === 'token' 
-                    ? ' from-cyan-500 to-blue-600 shadow-lg shadow-cyan-500/30' 
-                    : 'bg-slate-800 group-hover:bg-slate-700'
-                }`}>
-                  <img src={suiLogo} alt="Token" className="h-8 w-8 rounded-full" />
-                </div>
-                <div className="flex-1">
-                  <p className={`mb-1.5 text-base font-semibold ${assetCategory === 'token' ? 'text-cyan-300' : 'text-slate-100'}`}>
-                    Token (Fungible)
-                  </p>
-                  <p className={`text-sm leading-relaxed ${assetCategory === 'token' ? 'text-cyan-400/80' : 'text-slate-400'}`}>
-                    Lock a specific amount of tokens
-                  </p>
-                </div>
-                {assetCategory === 'token' && (
-                  <div className="absolute -right-1 -top-1 flex h-6 w-6 items-center justify-center rounded-full bg-cyan-500 shadow-lg">
-                    <CheckCircle2 className="h-4 w-4 text-white" />
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    {asset.category === 'token' ? (
+                      <img src={suiLogo} alt="Token" className="h-7 w-7 rounded-full object-cover" />
+                    ) : (
+                      <NftImage nft={asset.nft ?? { name: 'NFT', imageUrl: null }} className="h-7 w-7 rounded-full" />
+                    )}
+                    <p className={`text-sm font-semibold ${asset.category === 'token' ? 'text-cyan-300' : 'text-purple-300'}`}>
+                      {asset.category === 'token' ? 'Token (Fungible)' : 'NFT (Non-Fungible)'}
+                      {isBundle && <span className="ml-2 text-slate-500">#{i + 1}</span>}
+                    </p>
                   </div>
-                )}
-              </button>
-
-              <button
-                onClick={() => setAssetCategory('nft')}
-                className={`group relative flex items-start gap-4 rounded-xl border-2 p-5 text-left transition-all ${
-                  assetCategory === 'nft'
-                    ? 'border-purple-500 bg-slate-900 shadow-lg shadow-purple-500/20'
-                    : 'border-slate-700 bg-slate-900 hover:border-purple-500/50 hover:shadow-md'
-                }`}
-              >
-                <div className={`flex h-12 w-12 items-center justify-center rounded-xl transition-all ${
-                  assetCategory === 'nft' 
-                    ? 'bg-gradient-to-br from-purple-500 to-pink-600 shadow-lg shadow-purple-500/30' 
-                    : 'bg-slate-800 group-hover:bg-slate-700'
-                }`}>
-                  <img src={yetiImage} alt="NFT" className="h-8 w-8 rounded-full object-cover" />
-                </div>
-                <div className="flex-1">
-                  <p className={`mb-1.5 text-base font-semibold ${assetCategory === 'nft' ? 'text-purple-300' : 'text-slate-100'}`}>
-                    NFT (Non-Fungible)
-                  </p>
-                  <p className={`text-sm leading-relaxed ${assetCategory === 'nft' ? 'text-purple-400/80' : 'text-slate-400'}`}>
-                    Lock a unique digital asset
-                  </p>
+                  {isBundle && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeAsset(asset.key)}
+                      className="h-8 w-8 p-0 text-slate-400 hover:bg-red-500/10 hover:text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
-                {assetCategory === 'nft' && (
-                  <div className="absolute -right-1 -top-1 flex h-6 w-6 items-center justify-center rounded-full bg-purple-500 shadow-lg">
-                    <CheckCircle2 className="h-4 w-4 text-white" />
-                  </div>
+
+                {/* Token-specific fields */}
+                {asset.category === 'token' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label>Token Type</Label>
+                      <TokenSelector value={asset.coinType} onChange={(coinType) => updateAsset(asset.key, { coinType })} />
+                    </div>
+
+                    {isMilestones ? (
+                      <p className="text-xs text-gray-400">
+                        The amount is the total of the milestones set under Release Condition
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor={`amount-${asset.key}`}>Amount</Label>
+                        <Input
+                          id={`amount-${asset.key}`}
+                          type="text"
+                          inputMode="decimal"
+                          value={asset.amount}
+                          onChange={(e) => updateAsset(asset.key, { amount: e.target.value })}
+                          placeholder="0.00"
+                          className="border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50"
+                        />
+                      </div>
+                    )}
+                  </>
                 )}
-              </button>
-            </div>
-          </div>
 
-          {/* Token-specific fields */}
-          {assetCategory === 'token' && (
-            <>
-              <div className="space-y-2">
-                <Label htmlFor="token-select">Token Type</Label>
-                <TokenSelector value={assetType} onChange={setAssetType} />
-              </div>
+                {/* NFT-specific fields */}
+                {asset.category === 'nft' && (
+                  <div className="space-y-2">
+                    {asset.nft ? (
+                      <div className="flex items-center gap-3 rounded-lg border border-purple-500/30 bg-purple-500/10 p-3">
+                        <NftImage nft={asset.nft} className="h-14 w-14 flex-shrink-0 rounded-md" />
+                        <div className="min-w-0">
+                          <p className="truncate text-sm text-white">{asset.nft.name}</p>
+                          <p className="truncate text-xs text-gray-400">{asset.nft.collection}</p>
+                        </div>
+                      </div>
+                    ) : OBJECT_ID.test(asset.nftObjectId) && (
+                      <div className="rounded-lg border border-purple-500/30 bg-purple-500/10 p-3">
+                        <NftPreviewCard nftId={asset.nftObjectId} fallbackName="Unknown" compact />
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor={`nft-${asset.key}`}>NFT Object ID</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPickerAssetKey(asset.key)}
+                        className="h-7 gap-1.5 px-2 text-xs text-purple-300 hover:bg-purple-500/10 hover:text-purple-200"
+                      >
+                        <Images className="h-3.5 w-3.5" />
+                        Browse Wallet
+                      </Button>
+                    </div>
+                    <Input
+                      id={`nft-${asset.key}`}
+                      value={asset.nftObjectId}
+                      onChange={(e) => updateAsset(asset.key, { nftObjectId: e.target.value.trim(), nft: null })}
+                      placeholder="0x..."
+                      className="font-mono text-sm border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50"
+                    />
+                    <p className="text-xs text-gray-400">
+                      Pick an NFT from your wallet or paste the Sui object ID of the NFT you want to lock in escrow
+                    </p>
+                  </div>
+                )}
 
-              <div className="space-y-2">
-                <Label htmlFor="amount">Amount</Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
-                  placeholder="0.00"
-                  step="0.01"
-                  min="0"
-                  className="border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50 [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
-                />
+                {assetErrors[i] && (
+                  <p className="text-xs text-red-400">{assetErrors[i]}</p>
+                )}
               </div>
-            </>
-          )}
+            ))}
+          </div>
 
-          {/* NFT-specific fields */}
-          {assetCategory === 'nft' && (
-            <div className="space-y-2">
-              <Label htmlFor="nft-object-id">NFT Object ID</Label>
-              <Input
-                id="nft-object-id"
-                value={nftObjectId}
-                onChange={(e) => setNftObjectId(e.target.value)}
-                placeholder="0x..."
-                className="font-mono text-sm border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50"
-              />
-              <p className="text-xs text-gray-400">
-                The unique Sui object ID of the NFT you want to lock in escrow
-              </p>
-            </div>
-          )}
+          {/* Add Asset */}
+          <div className="grid gap-3 sm:grid-cols-2">
+            <Button
+              variant="outline"
+              onClick={() => addAsset('token')}
+              disabled={assets.length >= MAX_BUNDLE_ASSETS}
+              className="gap-2 border-dashed border-slate-600 bg-slate-900 text-slate-300 hover:border-cyan-500/50 hover:bg-slate-800 hover:text-cyan-300"
+            >
+              <Plus className="h-4 w-4" />
+              Add Token
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => addAsset('nft')}
+              disabled={assets.length >= MAX_BUNDLE_ASSETS}
+              className="gap-2 border-dashed border-slate-600 bg-slate-900 text-slate-300 hover:border-purple-500/50 hover:bg-slate-800 hover:text-purple-300"
+            >
+              <Plus className="h-4 w-4" />
+              Add NFT
+            </Button>
+          </div>
 
           <div className="space-y-2">
             <Label htmlFor="receiver">Receiver Address</Label>
@@ -421,6 +716,68 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
         </CardContent>
       </Card>
 
+      {/* Price */}
+      <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <ArrowLeftRight className="h-5 w-5 text-emerald-400" />
+                Swap Price (Optional)
+              </CardTitle>
+              <CardDescription className="mt-1.5 text-gray-400">
+                Require the receiver to pay you to claim, e.g. sell an NFT for 50 USDC
+              </CardDescription>
+            </div>
+            <Switch
+              id="priced"
+              checked={isPriced}
+              onCheckedChange={setIsPriced}
+              disabled={isBundle || isMilestones || isArbitrated}
+            />
+          </div>
+          {isBundle && (
+            <p className="mt-3 text-xs text-gray-400">
+              Only single-asset escrows can be priced: each bundled asset is its own escrow on-chain, so one price
+              could not guarantee payment for all of them.
+            </p>
+          )}
+        </CardHeader>
+        {isPriced && (
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-token">Payment Token</Label>
+              <TokenSelector value={paymentType} onChange={setPaymentType} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="price">Price</Label>
+              <Input
+                id="price"
+                type="text"
+                inputMode="decimal"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="0.00"
+                className="border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50"
+              />
+              {priceError && (
+                <p className="text-xs text-red-400">{priceError}</p>
+              )}
+            </div>
+
+            {priceBaseUnits !== null && priceBaseUnits > 0n && paymentInfo && (
+              <div className="rounded-lg border border-emerald-500/50 bg-emerald-500/20 p-3 text-sm text-emerald-200">
+                The receiver pays <span className="font-semibold">{formatAmount(priceBaseUnits, paymentInfo.decimals)} ${paymentInfo.symbol}</span> to
+                receive {assets[0].category === 'token'
+                  ? <span className="font-semibold">{describeAsset(assets[0])}</span>
+                  : 'the NFT'}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
       {/* Release Conditions */}
       <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
         <CardHeader>
@@ -433,7 +790,7 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <RadioGroup value={releaseCondition} onValueChange={(v) => setReleaseCondition(v as ReleaseCondition)}>
+          <RadioGroup value={releaseCondition} onValueChange={(v) => changeReleaseCondition(v as ReleaseCondition)}>
             {/* Recipient Approval */}
             <div className={`cursor-pointer rounded-lg border-2 p-4 transition-all ${
               releaseCondition === 'recipient'
@@ -498,17 +855,185 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
               </div>
             </div>
 
+            {/* Milestones */}
+            <div className={`cursor-pointer rounded-lg border-2 p-4 transition-all ${
+              isMilestones
+                ? 'border-cyan-500 bg-cyan-500/20'
+                : 'border-slate-600 bg-slate-700/30 hover:border-slate-500'
+            }`}>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="milestones" id="milestones" className="mt-1" />
+                <Label htmlFor="milestones" className="flex-1 cursor-pointer">
+                  <div className="mb-2 flex items-center gap-2">
+                    <Flag className="h-5 w-5 text-purple-400" />
+                    <span className="text-white">Milestones</span>
+                  </div>
+                  <p className="text-sm text-gray-300">
+                    Split a token amount into milestones. You approve each one and the receiver claims approved portions
+                  </p>
+                </Label>
+              </div>
+              {isMilestones && (
+                <div className="mt-4 space-y-3 border-t border-slate-600 pt-4">
+                  {milestonesAssetError && (
+                    <p className="text-xs text-red-400">{milestonesAssetError}</p>
+                  )}
+                  {milestones.map((milestone, i) => (
+                    <div key={i} className="space-y-1.5">
+                      <div className="flex items-center gap-2">
+                        <span className="w-6 text-sm text-gray-400">{i + 1}.</span>
+                        <Input
+                          type="text"
+                          inputMode="decimal"
+                          value={milestone.amount}
+                          onChange={(e) => updateMilestone(i, { amount: e.target.value })}
+                          placeholder={`Amount${milestoneCoin ? ` (${milestoneCoin.symbol})` : ''}`}
+                          className="border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50"
+                        />
+                        <Input
+                          type="datetime-local"
+                          value={milestone.unlockDate}
+                          onChange={(e) => updateMilestone(i, { unlockDate: e.target.value })}
+                          title="Optional unlock time"
+                          className="border-slate-600 bg-slate-700/50 text-white focus:bg-slate-700/50"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setMilestones((prev) => prev.filter((_, j) => j !== i))}
+                          disabled={milestones.length <= 1}
+                          className="h-9 w-9 flex-shrink-0 p-0 text-slate-400 hover:bg-red-500/10 hover:text-red-400"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {milestone.amount && milestoneErrors[i] && (
+                        <p className="pl-8 text-xs text-red-400">{milestoneErrors[i]}</p>
+                      )}
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between pt-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMilestones((prev) => [...prev, { amount: '', unlockDate: '' }])}
+                      disabled={milestones.length >= MAX_MILESTONES}
+                      className="gap-1.5 border-dashed border-slate-600 bg-slate-900 text-slate-300 hover:bg-slate-800 hover:text-white"
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      Add Milestone
+                    </Button>
+                    {milestoneCoin && (
+                      <p className="text-sm text-gray-300">
+                        Total: <span className="font-semibold text-white">{formatAmount(milestoneTotal, milestoneCoin.decimals)} ${milestoneCoin.symbol}</span>
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    Unlock times are optional: an approved milestone can only be claimed once its unlock time has passed
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Arbiter */}
+            <div className={`cursor-pointer rounded-lg border-2 p-4 transition-all ${
+              isArbitrated
+                ? 'border-cyan-500 bg-cyan-500/20'
+                : 'border-slate-600 bg-slate-700/30 hover:border-slate-500'
+            }`}>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="arbiter" id="arbiter" className="mt-1" />
+                <Label htmlFor="arbiter" className="flex-1 cursor-pointer">
+                  <div className="mb-2 flex items-center gap-2">
+                    <Scale className="h-5 w-5 text-purple-400" />
+                    <span className="text-white">Arbiter</span>
+                  </div>
+                  <p className="text-sm text-gray-300">
+                    You release the assets when satisfied and the receiver can refund them. If you disagree, a trusted third party decides
+                  </p>
+                </Label>
+              </div>
+              {isArbitrated && (
+                <div className="mt-4 space-y-2 border-t border-slate-600 pt-4">
+                  <Label htmlFor="arbiter-address" className="text-xs text-gray-300">Arbiter Address</Label>
+                  <Input
+                    id="arbiter-address"
+                    value={arbiter}
+                    onChange={(e) => setArbiter(e.target.value.trim())}
+                    placeholder="0x..."
+                    className="font-mono text-sm border-slate-600 bg-slate-700/50 text-white placeholder:text-slate-400 focus:bg-slate-700/50"
+                  />
+                  {arbiterError ? (
+                    <p className="text-xs text-red-400">{arbiterError}</p>
+                  ) : (
+                    <p className="text-xs text-gray-400">
+                      The arbiter can release the assets to the receiver or refund them to you, but cannot take them
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
           </RadioGroup>         
 
+          {/* Expiry */}
+          {!isMilestones && !isArbitrated && (
+          <div className="space-y-4 rounded-lg border border-slate-600/50 bg-slate-700/30 p-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Hourglass className="h-4 w-4 text-amber-400" />
+                <Label htmlFor="expiry" className="text-white">Expiry Deadline (Optional)</Label>
+              </div>
+              <Switch
+                id="expiry"
+                checked={enableExpiry}
+                onCheckedChange={setEnableExpiry}
+              />
+            </div>
+            {enableExpiry && (
+              <div className="space-y-2 border-t border-slate-600 pt-4">
+                <Input
+                  id="expiry-time"
+                  type="datetime-local"
+                  value={expiryTime}
+                  onChange={(e) => setExpiryTime(e.target.value)}
+                  className="border-slate-600 bg-slate-700/50 text-white focus:bg-slate-700/50"
+                />
+                <p className="text-xs text-gray-400">
+                  If the receiver has not claimed by this time, you can reclaim the assets
+                </p>
+                {expiryError && (
+                  <p className="text-xs text-red-400">{expiryError}</p>
+                )}
+              </div>
+            )}
+          </div>
+          )}
+
+          {shortfall && (
+            <Alert className="border-red-500/50 bg-red-500/20">
+              <AlertTriangle className="h-4 w-4 text-red-300" />
+              <AlertDescription className="text-sm text-red-200">
+                {shortfall}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Create Button */}
           <Button 
             onClick={createEscrow}
             disabled={
               isCreating ||
+              !!shortfall ||
               !receiver ||
-              (assetCategory === 'token' && !amount) ||
-              (assetCategory === 'nft' && !nftObjectId) ||
-              (releaseCondition === 'timelock' && !unlockTime)
+              hasIncompleteAsset ||
+              assetErrors.some(Boolean) ||
+              (releaseCondition === 'timelock' && !unlockTime) ||
+              (isArbitrated && (!arbiter || !!arbiterError)) ||
+              (isMilestones && (!milestoneCoin || !!milestonesAssetError || milestoneErrors.some(Boolean))) ||
+              !!expiryError ||
+              (isPriced && (!price || !!priceError))
             }
             className="w-full gap-2 bg-gradient-to-r from-purple-600 to-pink-600 py-6 shadow-lg shadow-purple-500/25 hover:from-purple-700 hover:to-pink-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
             size="lg"
@@ -518,6 +1043,23 @@ export function EscrowCreate({ walletAddress, prefilledReceiver = '' }: EscrowCr
           </Button>
         </CardContent>
       </Card>
+
+      <NftPicker
+        owner={walletAddress}
+        open={pickerAssetKey !== null}
+        onOpenChange={(open) => !open && setPickerAssetKey(null)}
+        onSelect={(nft) => pickerAssetKey && updateAsset(pickerAssetKey, { nftObjectId: nft.objectId, nft })}
+        selectedIds={assets.filter((asset) => asset.key !== pickerAssetKey).map((asset) => asset.nftObjectId)}
+      />
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title="Review Escrow"
+        confirmLabel="Sign & Lock Assets"
+        onConfirm={signEscrow}
+        onCancel={cancelReview}
+      />
     </div>
   );
 }
@@ -0,0 +1,392 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { Transaction } from '@mysten/sui/transactions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Alert, AlertDescription } from '../ui/alert';
+import {
+  AlertTriangle,
+  ArrowUpRight,
+  CheckCircle2,
+  Clock,
+  History,
+  Hourglass,
+  Inbox,
+  Loader2,
+  RefreshCw,
+  Scale,
+} from 'lucide-react';
+import { formatAmount } from '../lib/amount';
+import { coinSymbolFromType, SUI_COIN_TYPE } from '../lib/coinRegistry';
+import { buildClaimEscrowTransaction, getClaimStatus, type ClaimableEscrow, type ClaimStatus } from '../lib/escrow';
+import type { EscrowRecord } from '../lib/escrowQuery';
+import { useIncomingEscrows } from '../hooks/useIncomingEscrows';
+import { useCoinInfos } from '../hooks/useCoinInfo';
+import { useBalanceChecks } from '../hooks/useBalanceCheck';
+import { useClaimEscrow } from '../hooks/useTransactionMutations';
+import { NftPreviewCard } from './NftPreviewCard';
+import { TransactionReview } from './TransactionReview';
+
+interface IncomingEscrowsProps {
+  walletAddress: string;
+  onViewEscrow: (escrowId: string) => void;
+}
+
+const toClaimable = (record: EscrowRecord): ClaimableEscrow => ({
+  id: record.id,
+  assetType: record.assetType,
+  paymentType: record.paymentType,
+  isNft: record.isNft,
+  unlockTime: record.unlockTime,
+  expiryTime: record.expiryTime,
+  arbiter: record.arbiter,
+  price: BigInt(record.price),
+});
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+/** Every open escrow addressed to the wallet, with one transaction to claim all that can be claimed now. */
+export function IncomingEscrows({ walletAddress, onViewEscrow }: IncomingEscrowsProps) {
+  const suiClient = useSuiClient();
+  const { mutate: signAndExecute } = useClaimEscrow();
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    isRefetching,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useIncomingEscrows(walletAddress);
+  const escrows = data?.pages.flatMap((page) => page.escrows) ?? [];
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [claimError, setClaimError] = useState('');
+  const [transactionDigest, setTransactionDigest] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  // Moves time-locked escrows into the claimable group as they unlock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const coinInfos = useCoinInfos([
+    SUI_COIN_TYPE,
+    ...escrows.filter((e) => !e.isNft).map((e) => e.assetType),
+    ...escrows.map((e) => e.paymentType),
+  ]);
+
+  const byStatus = (status: ClaimStatus) =>
+    escrows.filter((escrow) => getClaimStatus(escrow, now) === status);
+  const claimable = byStatus('claimable');
+  const locked = byStatus('locked').sort((a, b) => a.unlockTime - b.unlockTime);
+  const settled = byStatus('arbiter');
+  const expired = byStatus('expired');
+
+  // Locked escrows grouped by the day they unlock
+  const lockedByDay = new Map<string, EscrowRecord[]>();
+  for (const escrow of locked) {
+    const day = new Date(escrow.unlockTime).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    lockedByDay.set(day, [...(lockedByDay.get(day) ?? []), escrow]);
+  }
+
+  // Prices of everything being claimed, per payment token
+  const { shortfall } = useBalanceChecks(
+    walletAddress,
+    claimable.flatMap((escrow) => {
+      const coin = coinInfos.get(escrow.paymentType);
+      return coin ? [{ coin, required: BigInt(escrow.price) }] : [];
+    })
+  );
+
+  const formatCoin = (coinType: string, amount: string) => {
+    const coin = coinInfos.get(coinType);
+    return coin
+      ? `${formatAmount(amount, coin.decimals, { maxFractionDigits: 4 })} $${coin.symbol}`
+      : `${amount} ${coinSymbolFromType(coinType)}`;
+  };
+
+  const claimAll = async () => {
+    setClaimError('');
+    setIsClaiming(true);
+    try {
+      // Dry-run and review before the wallet is asked to sign
+      setPendingTransaction(
+        await buildClaimEscrowTransaction(suiClient, packageId, walletAddress, claimable.map(toClaimable))
+      );
+    } catch (err) {
+      setClaimError(err instanceof Error ? err.message : 'Could not build the claim transaction');
+      setIsClaiming(false);
+    }
+  };
+
+  const signClaimAll = () => {
+    if (!pendingTransaction) return;
+    const txb = pendingTransaction;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      { transaction: txb },
+      {
+        onSuccess: async (result) => {
+          console.log('Claimed incoming escrows:', result);
+          setTransactionDigest(result.digest);
+          try {
+            await suiClient.waitForTransaction({ digest: result.digest });
+            await refetch();
+          } catch (err) {
+            console.error('Could not refresh after claiming:', err);
+            setClaimError(`Claimed, but the list could not be refreshed: ${err instanceof Error ? err.message : err}`);
+          } finally {
+            setIsClaiming(false);
+          }
+        },
+        onError: (err) => {
+          console.error('Claim all failed:', err);
+          setClaimError(`Transaction failed: ${err.message}`);
+          setIsClaiming(false);
+        },
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setIsClaiming(false);
+  };
+
+  const renderEscrow = (escrow: EscrowRecord, action?: ReactNode) => (
+    <div
+      key={escrow.id}
+      className="flex flex-col gap-3 rounded-lg border border-slate-600/50 bg-slate-700/30 p-4 sm:flex-row sm:items-center sm:justify-between"
+    >
+      <div className="min-w-0 space-y-1">
+        {escrow.isNft && escrow.nftId ? (
+          <NftPreviewCard nftId={escrow.nftId} escrowId={escrow.id} fallbackName={coinSymbolFromType(escrow.assetType)} compact />
+        ) : (
+          <p className="text-lg font-semibold text-white">{formatCoin(escrow.assetType, escrow.amount)}</p>
+        )}
+        <p className="text-xs text-gray-400">
+          From <span className="font-mono">{shortAddress(escrow.creator)}</span>
+          {escrow.price !== '0' && <> · you pay {formatCoin(escrow.paymentType, escrow.price)}</>}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        {action}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onViewEscrow(escrow.id)}
+          className="gap-1.5 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+        >
+          <ArrowUpRight className="h-3.5 w-3.5" />
+          Open
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="mb-2 flex items-center gap-2 text-2xl font-bold text-white">
+            <Inbox className="h-6 w-6 text-cyan-400" />
+            Incoming
+          </h2>
+          <p className="text-base text-gray-400">Escrows sent to your wallet</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isLoading || isRefetching}
+          className="gap-1.5 text-gray-300 hover:bg-slate-700/50 hover:text-white"
+        >
+          <RefreshCw className={`h-4 w-4 ${isRefetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {(error || claimError) && (
+        <Alert className="border-red-500/30 bg-red-950/30">
+          <AlertTriangle className="h-4 w-4 text-red-400" />
+          <AlertDescription className="text-sm text-red-200">
+            {claimError || `Could not load escrows: ${error?.message}`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {transactionDigest && (
+        <Alert className="border-emerald-500/50 bg-emerald-500/20">
+          <CheckCircle2 className="h-4 w-4 text-emerald-300" />
+          <AlertDescription className="text-sm text-emerald-200">
+            Claimed.{' '}
+            <a
+              href={`https://suiscan.xyz/testnet/tx/${transactionDigest}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="break-all underline hover:text-emerald-100"
+            >
+              {transactionDigest}
+            </a>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Only the most recent escrow events have been scanned so far */}
+      {hasNextPage && !isLoading && (
+        <Alert className="border-blue-500/30 bg-blue-950/30">
+          <History className="h-4 w-4 text-blue-300" />
+          <AlertDescription className="flex flex-col gap-3 text-sm text-blue-200 sm:flex-row sm:items-center sm:justify-between">
+            Showing escrows from recent activity only. Older escrows sent to you may not be listed yet.
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="gap-1.5 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+            >
+              {isFetchingNextPage ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <History className="h-3.5 w-3.5" />}
+              Load Older Escrows
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-gray-400">
+          <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />
+          Loading incoming escrows...
+        </div>
+      ) : escrows.length === 0 && !error ? (
+        <div className="rounded-xl border border-slate-700/50 bg-slate-800/30 p-8 text-center">
+          <p className="text-gray-400">
+            {hasNextPage
+              ? 'No open escrows addressed to this wallet in recent activity.'
+              : 'No open escrows are addressed to this wallet.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Claimable Now */}
+          <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <CheckCircle2 className="h-5 w-5 text-emerald-400" />
+                Claimable Now
+                <Badge variant="outline" className="border-emerald-500/50 bg-emerald-500/20 text-emerald-300">
+                  {claimable.length}
+                </Badge>
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                Claim them one by one, or all together in a single transaction
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {claimable.length === 0 ? (
+                <p className="text-sm text-gray-400">Nothing to claim yet.</p>
+              ) : (
+                claimable.map((escrow) => renderEscrow(escrow))
+              )}
+
+              {shortfall && (
+                <Alert className="border-red-500/50 bg-red-500/20">
+                  <AlertTriangle className="h-4 w-4 text-red-300" />
+                  <AlertDescription className="text-sm text-red-200">{shortfall}</AlertDescription>
+                </Alert>
+              )}
+
+              {claimable.length > 0 && (
+                <Button
+                  onClick={claimAll}
+                  disabled={isClaiming || !!shortfall}
+                  className="w-full gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 py-6 shadow-lg shadow-blue-500/25 hover:from-blue-700 hover:to-cyan-700 text-white"
+                  size="lg"
+                >
+                  {isClaiming ? <Loader2 className="h-5 w-5 animate-spin" /> : <CheckCircle2 className="h-5 w-5" />}
+                  Claim All Claimable ({claimable.length})
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Locked */}
+          {locked.length > 0 && (
+            <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <Clock className="h-5 w-5 text-blue-400" />
+                  Locked
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Time-locked escrows become claimable on their unlock date
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {[...lockedByDay.entries()].map(([day, group]) => (
+                  <div key={day} className="space-y-3">
+                    <p className="text-sm text-blue-300">Unlocks {day}</p>
+                    {group.map((escrow) => renderEscrow(
+                      escrow,
+                      <span className="text-xs text-gray-400">{new Date(escrow.unlockTime).toLocaleTimeString()}</span>
+                    ))}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Arbiter */}
+          {settled.length > 0 && (
+            <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <Scale className="h-5 w-5 text-purple-400" />
+                  Awaiting Settlement
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Arbiter escrows are released by the creator or the arbiter
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {settled.map((escrow) => renderEscrow(escrow))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Expired */}
+          {expired.length > 0 && (
+            <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <Hourglass className="h-5 w-5 text-red-400" />
+                  Expired
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  These were not claimed in time and can only be reclaimed by their creator
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {expired.map((escrow) => renderEscrow(escrow))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title="Review Claim All"
+        confirmLabel={`Sign & Claim ${claimable.length}`}
+        onConfirm={signClaimAll}
+        onCancel={cancelReview}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { Transaction } from '@mysten/sui/transactions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Alert, AlertDescription } from '../ui/alert';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  Clock,
+  Flag,
+  Loader2,
+  Lock,
+  Unlock,
+} from 'lucide-react';
+import { formatAmount } from '../lib/amount';
+import {
+  buildApproveMilestoneTransaction,
+  buildClaimMilestonesTransaction,
+  getMilestoneStatus,
+  parseMilestoneEscrow,
+  summarizeMilestones,
+  type MilestoneEscrow,
+  type MilestoneStatus,
+} from '../lib/milestones';
+import { useCoinInfo } from '../hooks/useCoinInfo';
+import { useClaimEscrow } from '../hooks/useTransactionMutations';
+import { TransactionReview } from './TransactionReview';
+
+interface MilestoneEscrowViewProps {
+  escrow: MilestoneEscrow;
+  walletAddress: string;
+  onBack: () => void;
+}
+
+const STATUS_BADGES: Record<MilestoneStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting Approval', className: 'border-amber-500/50 bg-amber-500/20 text-amber-300' },
+  approved: { label: 'Approved', className: 'border-blue-500/50 bg-blue-500/20 text-blue-300' },
+  claimable: { label: 'Claimable', className: 'border-cyan-500/50 bg-cyan-500/20 text-cyan-300' },
+  claimed: { label: 'Claimed', className: 'border-emerald-500/50 bg-emerald-500/20 text-emerald-300' },
+};
+
+export function MilestoneEscrowView({ escrow: initialEscrow, walletAddress, onBack }: MilestoneEscrowViewProps) {
+  const suiClient = useSuiClient();
+  const { mutate: signAndExecute } = useClaimEscrow();
+  const [escrow, setEscrow] = useState(initialEscrow);
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+  const [pendingAction, setPendingAction] = useState<'approve' | 'claim'>('claim');
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState('');
+  const [transactionDigest, setTransactionDigest] = useState('');
+
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+  const { data: coinInfo } = useCoinInfo(escrow.coinType);
+  const now = Date.now();
+  const summary = summarizeMilestones(escrow, now);
+  const isCreator = escrow.creator.toLowerCase() === walletAddress.toLowerCase();
+  const isRecipient = escrow.recipient.toLowerCase() === walletAddress.toLowerCase();
+
+  const fmt = (value: bigint) =>
+    coinInfo ? `${formatAmount(value, coinInfo.decimals, { maxFractionDigits: 4 })} $${coinInfo.symbol}` : value.toString();
+
+  const refresh = async () => {
+    const object = await suiClient.getObject({ id: escrow.id, options: { showContent: true } });
+    const updated = parseMilestoneEscrow(object);
+    if (updated) setEscrow(updated);
+  };
+
+  const approveMilestone = (index: number) => {
+    setError('');
+    setBusyIndex(index);
+    setPendingAction('approve');
+    // Dry-run and review before the wallet is asked to sign
+    setPendingTransaction(buildApproveMilestoneTransaction(packageId, escrow, index));
+  };
+
+  const claimReleased = () => {
+    setError('');
+    setIsClaiming(true);
+    setPendingAction('claim');
+    // Dry-run and review before the wallet is asked to sign
+    setPendingTransaction(buildClaimMilestonesTransaction(packageId, escrow));
+  };
+
+  const signPending = () => {
+    if (!pendingTransaction) return;
+    const txb = pendingTransaction;
+    setPendingTransaction(null);
+
+    signAndExecute(
+      { transaction: txb },
+      {
+        onSuccess: async (result) => {
+          console.log(`Milestone ${pendingAction} successful:`, result);
+          setTransactionDigest(result.digest);
+          try {
+            await suiClient.waitForTransaction({ digest: result.digest });
+            await refresh();
+          } catch (err) {
+            console.error('Could not refresh milestone escrow:', err);
+            setError(`Transaction sent, but the escrow could not be refreshed: ${err instanceof Error ? err.message : err}`);
+          } finally {
+            setBusyIndex(null);
+            setIsClaiming(false);
+          }
+        },
+        onError: (err) => {
+          console.error(`Milestone ${pendingAction} failed:`, err);
+          setError(`Transaction failed: ${err.message}`);
+          setBusyIndex(null);
+          setIsClaiming(false);
+        },
+      }
+    );
+  };
+
+  const cancelReview = () => {
+    setPendingTransaction(null);
+    setBusyIndex(null);
+    setIsClaiming(false);
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      <Button
+        variant="ghost"
+        onClick={onBack}
+        className="mb-6 gap-2 text-gray-300 hover:text-white hover:bg-slate-700/50"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Dashboard
+      </Button>
+
+      <div className="space-y-6">
+        {error && (
+          <Alert className="border-red-500/30 bg-red-950/30">
+            <AlertTriangle className="h-4 w-4 text-red-400" />
+            <AlertDescription className="text-sm text-red-200">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <Flag className="h-6 w-6 text-purple-400" />
+                  Milestone Escrow
+                </CardTitle>
+                <CardDescription className="mt-2 text-gray-400">
+                  The creator approves each milestone; the receiver claims approved milestones once they unlock
+                </CardDescription>
+              </div>
+              {summary.completed ? (
+                <Badge variant="outline" className="border-emerald-500/50 bg-emerald-500/20 text-emerald-300">
+                  <CheckCircle2 className="mr-1.5 h-3 w-3" />
+                  Completed
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="border-amber-500/50 bg-amber-500/20 text-amber-300">
+                  <Clock className="mr-1.5 h-3 w-3" />
+                  In Progress
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {/* Balances */}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="rounded-lg border border-slate-600/50 bg-slate-700/30 p-4">
+                <p className="mb-2 text-xs text-gray-400">Total</p>
+                <p className="text-lg text-white">{fmt(summary.total)}</p>
+              </div>
+              <div className="rounded-lg border border-purple-500/30 bg-purple-500/10 p-4">
+                <p className="mb-2 flex items-center gap-1.5 text-xs text-purple-300">
+                  <Lock className="h-3 w-3" />
+                  Remaining Locked
+                </p>
+                <p className="text-lg text-white">{fmt(summary.locked)}</p>
+              </div>
+              <div className="rounded-lg border border-emerald-500/30 bg-emerald-500/10 p-4">
+                <p className="mb-2 text-xs text-emerald-300">Claimed</p>
+                <p className="text-lg text-white">{fmt(summary.claimed)}</p>
+              </div>
+            </div>
+
+            {/* Milestones */}
+            <div className="space-y-3 border-t border-slate-600 pt-6">
+              <h3 className="text-white">Milestones</h3>
+              {escrow.milestones.map((milestone, i) => {
+                const status = getMilestoneStatus(milestone, now);
+                const badge = STATUS_BADGES[status];
+                return (
+                  <div
+                    key={i}
+                    className="flex flex-col gap-3 rounded-lg border border-slate-600/50 bg-slate-700/30 p-4 sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div>
+                      <p className="text-sm text-gray-400">Milestone {i + 1}</p>
+                      <p className="text-lg text-white">{fmt(milestone.amount)}</p>
+                      {milestone.unlockTime > 0 && (
+                        <p className="mt-1 flex items-center gap-1.5 text-xs text-gray-400">
+                          <Unlock className="h-3 w-3" />
+                          {now >= milestone.unlockTime ? 'Unlocked' : 'Unlocks'} {new Date(milestone.unlockTime).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline" className={badge.className}>
+                        {badge.label}
+                      </Badge>
+                      {isCreator && status === 'pending' && (
+                        <Button
+                          size="sm"
+                          onClick={() => approveMilestone(i)}
+                          disabled={busyIndex !== null || isClaiming}
+                          className="gap-1.5 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white"
+                        >
+                          {busyIndex === i ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <CheckCircle2 className="h-3.5 w-3.5" />
+                          )}
+                          Approve
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Parties */}
+            <div className="grid gap-3 border-t border-slate-600 pt-6 sm:grid-cols-2">
+              <div>
+                <p className="mb-2 text-xs text-gray-400">Creator{isCreator && ' (You)'}</p>
+                <p className="break-all rounded-lg border border-slate-600/50 bg-slate-700/50 p-3 font-mono text-xs text-gray-300">
+                  {escrow.creator}
+                </p>
+              </div>
+              <div>
+                <p className="mb-2 text-xs text-gray-400">Receiver{isRecipient && ' (You)'}</p>
+                <p className="break-all rounded-lg border border-emerald-500/50 bg-emerald-500/20 p-3 font-mono text-xs text-emerald-300">
+                  {escrow.recipient}
+                </p>
+              </div>
+            </div>
+
+            {transactionDigest && (
+              <a
+                href={`https://suiscan.xyz/testnet/tx/${transactionDigest}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block break-all text-center text-xs text-cyan-400 underline hover:text-cyan-300"
+              >
+                Last transaction: {transactionDigest}
+              </a>
+            )}
+          </CardContent>
+        </Card>
+
+        {isRecipient && !summary.completed && (
+          <Card className="border-slate-700/50 bg-slate-800/50 backdrop-blur-sm shadow-lg">
+            <CardContent className="p-6">
+              <Button
+                onClick={claimReleased}
+                disabled={isClaiming || busyIndex !== null || summary.claimable === 0n}
+                className="w-full gap-3 bg-gradient-to-r from-blue-600 to-cyan-600 py-6 shadow-lg shadow-blue-500/25 hover:from-blue-700 hover:to-cyan-700 text-white"
+                size="lg"
+              >
+                {isClaiming ? <Loader2 className="h-6 w-6 animate-spin" /> : <CheckCircle2 className="h-6 w-6" />}
+                {summary.claimable > 0n ? `Claim ${fmt(summary.claimable)}` : 'Nothing to Claim Yet'}
+              </Button>
+              <p className="mt-4 text-center text-xs text-gray-400">
+                Claims every approved milestone whose unlock time has passed
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <TransactionReview
+        transaction={pendingTransaction}
+        sender={walletAddress}
+        title={pendingAction === 'approve' ? 'Review Milestone Approval' : 'Review Claim'}
+        confirmLabel={pendingAction === 'approve' ? 'Sign & Approve Milestone' : 'Sign & Claim'}
+        onConfirm={signPending}
+        onCancel={cancelReview}
+      />
+    </div>
+  );
+}
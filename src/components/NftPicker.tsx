@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { AlertTriangle, Check, ImageOff, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { coinSymbolFromType } from '../lib/coinRegistry';
+import type { NftInfo } from '../lib/nfts';
+import { useOwnedNfts } from '../hooks/useOwnedNfts';
+
+const ALL_TYPES = 'all';
+
+interface NftPickerProps {
+  owner: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (nft: NftInfo) => void;
+  /** NFTs already in the escrow, shown as taken. */
+  selectedIds?: string[];
+}
+
+export function NftImage({ nft, className }: { nft: Pick<NftInfo, 'name' | 'imageUrl'>; className: string }) {
+  const [failed, setFailed] = useState(false);
+
+  if (!nft.imageUrl || failed) {
+    return (
+      <div className={`flex items-center justify-center bg-slate-800 ${className}`}>
+        <ImageOff className="h-6 w-6 text-slate-500" />
+      </div>
+    );
+  }
+  return (
+    <img
+      src={nft.imageUrl}
+      alt={nft.name}
+      loading="lazy"
+      referrerPolicy="no-referrer"
+      onError={() => setFailed(true)}
+      className={`object-cover ${className}`}
+    />
+  );
+}
+
+/** Browses the wallet's NFTs so one can be chosen visually instead of pasting its object ID. */
+export function NftPicker({ owner, open, onOpenChange, onSelect, selectedIds = [] }: NftPickerProps) {
+  const [typeFilter, setTypeFilter] = useState(ALL_TYPES);
+  const filterType = typeFilter === ALL_TYPES ? null : typeFilter;
+
+  // The unfiltered listing also supplies the type filter's options
+  const all = useOwnedNfts(owner, null, open);
+  const filtered = useOwnedNfts(owner, filterType, open && !!filterType);
+  const { data, error, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = filterType ? filtered : all;
+
+  const nfts = data?.pages.flatMap((page) => page.nfts) ?? [];
+  const types = [...new Set((all.data?.pages ?? []).flatMap((page) => page.nfts.map((nft) => nft.type)))];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-slate-700 bg-slate-900 text-slate-100 sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Choose an NFT</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            NFTs owned by your wallet. Only transferable objects can be locked in escrow.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-full border-slate-700 bg-slate-800 text-slate-100">
+            <SelectValue placeholder="All types" />
+          </SelectTrigger>
+          <SelectContent className="border-slate-700 bg-slate-900 text-slate-100">
+            <SelectItem value={ALL_TYPES}>All types</SelectItem>
+            {types.map((type) => (
+              <SelectItem key={type} value={type}>
+                <span>{coinSymbolFromType(type)}</span>
+                <span className="ml-2 truncate font-mono text-xs text-slate-500">{type.split('::')[0].slice(0, 10)}...</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="max-h-[60vh] overflow-y-auto pr-1">
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-400">
+              <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />
+              Loading NFTs...
+            </div>
+          )}
+
+          {error && (
+            <p className="flex items-center justify-center gap-2 py-10 text-sm text-red-400">
+              <AlertTriangle className="h-4 w-4" />
+              Could not load NFTs: {error.message}
+            </p>
+          )}
+
+          {!isLoading && !error && nfts.length === 0 && (
+            <p className="py-10 text-center text-sm text-gray-400">No NFTs found in this wallet.</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {nfts.map((nft) => {
+              const isTaken = selectedIds.includes(nft.objectId);
+              const disabled = !nft.transferable || isTaken;
+              return (
+                <button
+                  key={nft.objectId}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => {
+                    onSelect(nft);
+                    onOpenChange(false);
+                  }}
+                  title={nft.type}
+                  className="overflow-hidden rounded-lg border border-slate-700 bg-slate-800/50 text-left transition-all hover:border-cyan-500/60 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:border-slate-700"
+                >
+                  <NftImage nft={nft} className="aspect-square w-full" />
+                  <div className="space-y-1 p-2.5">
+                    <p className="truncate text-sm text-white">{nft.name}</p>
+                    <p className="truncate text-xs text-gray-400">{nft.collection}</p>
+                    {isTaken && (
+                      <Badge variant="outline" className="gap-1 border-cyan-500/50 bg-cyan-500/20 text-cyan-300">
+                        <Check className="h-3 w-3" />
+                        Added
+                      </Badge>
+                    )}
+                    {!nft.transferable && (
+                      <Badge variant="outline" className="border-red-500/50 bg-red-500/20 text-red-300">
+                        Not transferable
+                      </Badge>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {hasNextPage && (
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="mt-4 w-full gap-2 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+            >
+              {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+              Load More
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { useNftPreview } from '../hooks/useNftPreview';
+import { NftImage } from './NftPicker';
+
+interface NftPreviewCardProps {
+  nftId: string;
+  /** Escrow holding the NFT, used when the NFT itself cannot be read. */
+  escrowId?: string;
+  /** Shown when the NFT has no metadata, e.g. the struct name. */
+  fallbackName: string;
+  compact?: boolean;
+}
+
+/** Image, name and collection of a (possibly escrowed) NFT from its Sui Display. */
+export function NftPreviewCard({ nftId, escrowId, fallbackName, compact = false }: NftPreviewCardProps) {
+  const { data: nft, isLoading } = useNftPreview(nftId, escrowId);
+  const preview = nft ?? { name: `${fallbackName} NFT`, imageUrl: null };
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-3">
+        <NftImage nft={preview} className="h-12 w-12 flex-shrink-0 rounded-md" />
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold text-white">{preview.name}</p>
+          <p className="truncate text-xs text-purple-300">{nft?.collection ?? fallbackName}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 rounded-lg border border-slate-600/50 bg-slate-700/30 p-4 sm:flex-row">
+      <NftImage nft={preview} className="aspect-square w-full flex-shrink-0 rounded-lg sm:w-40" />
+      <div className="min-w-0 flex-1 space-y-2">
+        <div className="flex items-center gap-2">
+          <p className="text-lg text-white">{preview.name}</p>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-cyan-500" />}
+        </div>
+        <p className="text-sm text-purple-300">{nft?.collection ?? fallbackName}</p>
+        {nft?.description && (
+          <p className="line-clamp-3 text-sm text-gray-300">{nft.description}</p>
+        )}
+        {!isLoading && !nft?.hasDisplay && (
+          <p className="text-xs text-gray-500">Display metadata is not available for this NFT.</p>
+        )}
+        <p className="break-all font-mono text-xs text-gray-400">{nftId}</p>
+        {nft?.link && (
+          <a
+            href={nft.link}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300"
+          >
+            <ExternalLink className="h-3 w-3" />
+            Project page
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { Check, ChevronDown } from 'lucide-react';
-import suiLogo from '../assets/sui-logo.png';
+import { Check, ChevronDown, Loader2, Plus } from 'lucide-react';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { Button } from '../ui/button';
 import {
   Command,
@@ -15,30 +15,59 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '../ui/popover';
+import { getCoinInfo, isValidCoinType, normalizeCoinType, type CoinInfo } from '../lib/coinRegistry';
+import { formatAmount } from '../lib/amount';
+import { useCoinInfo } from '../hooks/useCoinInfo';
+import { useWalletTokens } from '../hooks/useWalletTokens';
 
-export type TokenType = 'SUI' | 'USDC' | 'OTHER';
-
-interface Token {
-  symbol: TokenType;
-  name: string;
-  color: string;
-  bgColor: string;
+interface TokenSelectorProps {
+  /** Full coin type, e.g. `0x2::sui::SUI` */
+  value: string;
+  onChange: (coinType: string) => void;
 }
 
-const tokens: Token[] = [
-  { symbol: 'SUI', name: 'Sui', color: 'text-cyan-400', bgColor: 'bg-cyan-500/20' },
-  { symbol: 'USDC', name: 'USD Coin', color: 'text-blue-400', bgColor: 'bg-blue-500/20' },
-  { symbol: 'OTHER', name: 'Custom Token', color: 'text-purple-400', bgColor: 'bg-purple-500/20' }
-];
+function TokenIcon({ token, size }: { token: CoinInfo | undefined; size: 'sm' | 'md' }) {
+  const sizeClass = size === 'sm' ? 'h-6 w-6' : 'h-8 w-8';
 
-interface TokenSelectorProps {
-  value: TokenType;
-  onChange: (token: TokenType) => void;
+  if (token?.iconUrl) {
+    return <img src={token.iconUrl} alt={token.symbol} className={`${sizeClass} rounded-full`} />;
+  }
+  return (
+    <div className={`flex ${sizeClass} items-center justify-center rounded-full bg-purple-500/20`}>
+      <span className={`${size === 'sm' ? 'text-xs' : ''} text-purple-400`}>{token?.symbol[0] ?? '?'}</span>
+    </div>
+  );
 }
 
 export function TokenSelector({ value, onChange }: TokenSelectorProps) {
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
   const [open, setOpen] = useState(false);
-  const selectedToken = tokens.find(t => t.symbol === value);
+  const [search, setSearch] = useState('');
+  const [isValidating, setIsValidating] = useState(false);
+  const [customError, setCustomError] = useState('');
+
+  const { data: tokens = [], isLoading } = useWalletTokens(currentAccount?.address);
+  const { data: selectedToken } = useCoinInfo(value);
+
+  const searchIsCoinType = isValidCoinType(search);
+  const searchIsListed = searchIsCoinType && tokens.some(t => t.coinType === normalizeCoinType(search));
+
+  const selectCustomCoinType = async () => {
+    setIsValidating(true);
+    setCustomError('');
+    try {
+      // Only accept types that actually have coin metadata on chain
+      const info = await getCoinInfo(suiClient, search);
+      onChange(info.coinType);
+      setSearch('');
+      setOpen(false);
+    } catch (error) {
+      setCustomError(error instanceof Error ? error.message : 'Unknown coin type');
+    } finally {
+      setIsValidating(false);
+    }
+  };
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
@@ -49,62 +78,89 @@ export function TokenSelector({ value, onChange }: TokenSelectorProps) {
           aria-expanded={open}
           className="w-full justify-between border-slate-700 bg-slate-900 hover:bg-slate-800 text-slate-100"
         >
-          {selectedToken && (
+          {selectedToken ? (
             <div className="flex items-center gap-2">
-              {selectedToken.symbol === 'SUI' ? (
-                <img src={suiLogo} alt="SUI" className="h-6 w-6" />
-              ) : (
-                <div className={`flex h-6 w-6 items-center justify-center rounded-full ${selectedToken.bgColor}`}>
-                  <span className={`text-xs ${selectedToken.color}`}>${selectedToken.symbol[0]}</span>
-                </div>
-              )}
+              <TokenIcon token={selectedToken} size="sm" />
               <span className="text-slate-100">${selectedToken.symbol}</span>
               <span className="text-slate-400">- {selectedToken.name}</span>
             </div>
+          ) : (
+            <span className="truncate font-mono text-xs text-slate-400">{value || 'Select token'}</span>
           )}
           <ChevronDown className="ml-2 h-4 w-4 shrink-0 text-slate-400" />
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-(--radix-popover-trigger-width) p-0 bg-slate-900 border-slate-700 shadow-xl" align="start">
         <Command className="bg-slate-900 border-0">
-          <CommandInput placeholder="Search token..." className="border-0 bg-slate-900 text-slate-100 placeholder:text-slate-500 focus:ring-0 focus:outline-none [&>svg]:text-slate-500" />
+          <CommandInput
+            value={search}
+            onValueChange={(v) => {
+              setSearch(v.trim());
+              setCustomError('');
+            }}
+            placeholder="Search token or paste a coin type..."
+            className="border-0 bg-slate-900 text-slate-100 placeholder:text-slate-500 focus:ring-0 focus:outline-none [&>svg]:text-slate-500"
+          />
           <CommandList className="bg-slate-900">
-            <CommandEmpty className="text-slate-400 py-6 text-center text-sm">No token found.</CommandEmpty>
-            <CommandGroup className="bg-slate-900">
+            <CommandEmpty className="text-slate-400 py-6 text-center text-sm">
+              {isLoading
+                ? 'Loading wallet balances...'
+                : search.includes('::')
+                  ? 'Not a valid coin type (expected 0x...::module::NAME)'
+                  : 'No token found.'}
+            </CommandEmpty>
+            <CommandGroup heading={currentAccount ? 'In your wallet' : undefined} className="bg-slate-900">
               {tokens.map((token) => (
                 <CommandItem
-                  key={token.symbol}
-                  value={token.symbol}
+                  key={token.coinType}
+                  value={`${token.symbol} ${token.name} ${token.coinType}`}
                   onSelect={() => {
-                    onChange(token.symbol);
+                    onChange(token.coinType);
                     setOpen(false);
                   }}
                   className="cursor-pointer hover:bg-slate-800 data-[selected=true]:bg-cyan-500/20 aria-selected:bg-cyan-500/20"
                 >
                   <div className="flex flex-1 items-center gap-3">
-                    {token.symbol === 'SUI' ? (
-                      <img src={suiLogo} alt="SUI" className="h-8 w-8" />
-                    ) : (
-                      <div className={`flex h-8 w-8 items-center justify-center rounded-full ${token.bgColor}`}>
-                        <span className={`${token.color}`}>${token.symbol[0]}</span>
-                      </div>
-                    )}
+                    <TokenIcon token={token} size="md" />
                     <div className="flex flex-col">
                       <span className="text-slate-100">${token.symbol}</span>
                       <span className="text-xs text-slate-400">{token.name}</span>
                     </div>
                   </div>
+                  <span className="text-sm text-slate-300">
+                    {formatAmount(token.balance, token.decimals, { maxFractionDigits: 4 })}
+                  </span>
                   <Check
-                    className={`ml-auto h-4 w-4 ${
-                      value === token.symbol ? 'opacity-100 text-cyan-400' : 'opacity-0'
+                    className={`ml-2 h-4 w-4 ${
+                      selectedToken?.coinType === token.coinType ? 'opacity-100 text-cyan-400' : 'opacity-0'
                     }`}
                   />
                 </CommandItem>
               ))}
             </CommandGroup>
+            {searchIsCoinType && !searchIsListed && (
+              <CommandGroup heading="Custom coin type" className="bg-slate-900">
+                <CommandItem
+                  value={search}
+                  disabled={isValidating}
+                  onSelect={selectCustomCoinType}
+                  className="cursor-pointer hover:bg-slate-800 data-[selected=true]:bg-cyan-500/20 aria-selected:bg-cyan-500/20"
+                >
+                  {isValidating ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+                  ) : (
+                    <Plus className="h-4 w-4 text-purple-400" />
+                  )}
+                  <span className="truncate font-mono text-xs text-slate-100">{search}</span>
+                </CommandItem>
+                {customError && (
+                  <p className="px-2 pb-2 text-xs text-red-400">{customError}</p>
+                )}
+              </CommandGroup>
+            )}
           </CommandList>
         </Command>
       </PopoverContent>
     </Popover>
   );
-}
\ No newline at end of file
+}
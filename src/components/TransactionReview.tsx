@@ -0,0 +1,199 @@
+import { useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { Transaction } from '@mysten/sui/transactions';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Button } from '../ui/button';
+import { AlertTriangle, CheckCircle2, Fuel, Loader2, PackageMinus, PackagePlus, Shield } from 'lucide-react';
+import { simulateTransaction, type PreviewBalanceChange } from '../lib/dryRun';
+import { coinSymbolFromType } from '../lib/coinRegistry';
+import { formatAmount } from '../lib/amount';
+
+interface TransactionReviewProps {
+  /** Transaction awaiting review; the dialog is open while this is set. */
+  transaction: Transaction | null;
+  sender: string;
+  title?: string;
+  confirmLabel?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const shortAddress = (address: string) =>
+  address.startsWith('0x') ? `${address.slice(0, 8)}...${address.slice(-6)}` : address;
+
+function BalanceChangeRow({ change, sender }: { change: PreviewBalanceChange; sender: string }) {
+  const symbol = change.coin?.symbol ?? coinSymbolFromType(change.coinType);
+  const amount = change.coin
+    ? formatAmount(change.amount, change.coin.decimals)
+    : `${change.amount.toString()} (base units)`;
+  const isSender = change.owner.toLowerCase() === sender.toLowerCase();
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+      <span className="font-mono text-gray-300">
+        {shortAddress(change.owner)}
+        {isSender && <span className="ml-2 font-sans text-cyan-400">(You)</span>}
+      </span>
+      <span className={change.amount < 0n ? 'text-red-300' : 'text-emerald-300'}>
+        {change.amount > 0n ? '+' : ''}{amount} {symbol}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Dry-runs a built transaction and shows its effects for confirmation before
+ * the wallet is asked to sign.
+ */
+export function TransactionReview({
+  transaction,
+  sender,
+  title = 'Review Transaction',
+  confirmLabel = 'Confirm & Sign',
+  onConfirm,
+  onCancel,
+}: TransactionReviewProps) {
+  const suiClient = useSuiClient();
+  const { mutate: runDryRun, data: preview, error, isPending, reset } = useMutation({
+    mutationFn: (tx: Transaction) => simulateTransaction(suiClient, tx, sender),
+  });
+
+  useEffect(() => {
+    if (transaction) {
+      runDryRun(transaction);
+    } else {
+      reset();
+    }
+  }, [transaction, runDryRun, reset]);
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="border-slate-700 bg-slate-900 text-slate-100 sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <Shield className="h-5 w-5 text-cyan-400" />
+            {title}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Simulated against the network. Nothing has been signed yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending && (
+          <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin text-cyan-500" />
+            Simulating transaction...
+          </div>
+        )}
+
+        {error && (
+          <Alert className="border-red-500/50 bg-red-500/20">
+            <AlertTriangle className="h-4 w-4 text-red-300" />
+            <AlertDescription className="text-sm text-red-200">
+              Could not simulate transaction: {error.message}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            {preview.success ? (
+              <Alert className="border-emerald-500/50 bg-emerald-500/20">
+                <CheckCircle2 className="h-4 w-4 text-emerald-300" />
+                <AlertDescription className="text-sm text-emerald-200">
+                  Simulation succeeded
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert className="border-red-500/50 bg-red-500/20">
+                <AlertTriangle className="h-4 w-4 text-red-300" />
+                <AlertDescription className="text-sm text-red-200">
+                  {preview.abort ? (
+                    <div className="mb-1 font-semibold">
+                      Move abort in {preview.abort.module}
+                      {preview.abort.function && `::${preview.abort.function}`} (code {preview.abort.code})
+                    </div>
+                  ) : (
+                    <div className="mb-1 font-semibold">Transaction would fail</div>
+                  )}
+                  <div className="break-all font-mono text-xs">{preview.error}</div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <p className="mb-2 text-xs text-gray-400">Balance Changes</p>
+              <div className="max-h-56 divide-y divide-slate-700/50 overflow-y-auto rounded-lg border border-slate-600/50 bg-slate-800/50">
+                {preview.balanceChanges.length === 0 ? (
+                  <p className="px-3 py-2 text-xs text-gray-400">No balance changes</p>
+                ) : (
+                  preview.balanceChanges.map((change, idx) => (
+                    <BalanceChangeRow key={idx} change={change} sender={sender} />
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="rounded-lg border border-slate-600/50 bg-slate-800/50 p-3">
+                <p className="mb-1 flex items-center gap-1.5 text-xs text-gray-400">
+                  <Fuel className="h-3 w-3" /> Gas
+                </p>
+                <p className="text-white">{formatAmount(preview.gasCost, 9, { maxFractionDigits: 6 })} SUI</p>
+              </div>
+              <div className="rounded-lg border border-slate-600/50 bg-slate-800/50 p-3">
+                <p className="mb-1 flex items-center gap-1.5 text-xs text-gray-400">
+                  <PackagePlus className="h-3 w-3" /> Created
+                </p>
+                <p className="text-white">{preview.created.length} objects</p>
+              </div>
+              <div className="rounded-lg border border-slate-600/50 bg-slate-800/50 p-3">
+                <p className="mb-1 flex items-center gap-1.5 text-xs text-gray-400">
+                  <PackageMinus className="h-3 w-3" /> Deleted
+                </p>
+                <p className="text-white">{preview.deleted.length} objects</p>
+              </div>
+            </div>
+
+            {preview.created.length > 0 && (
+              <div className="max-h-32 overflow-y-auto rounded-lg border border-slate-600/50 bg-slate-800/50 p-3">
+                {preview.created.map((obj) => (
+                  <p key={obj.objectId} className="truncate font-mono text-xs text-gray-300">
+                    + {coinSymbolFromType(obj.objectType)} {shortAddress(obj.objectId)}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            className="border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-white"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={isPending || !preview?.success}
+            className="gap-2 bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white"
+          >
+            <CheckCircle2 className="h-4 w-4" />
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { getBalanceShortfall } from '../lib/balance';
+import { normalizeCoinType, SUI_COIN_TYPE, type CoinInfo } from '../lib/coinRegistry';
+import { useBalances } from './useBalances';
+
+const balanceOf = (balances: Map<string, bigint>, coinType: string) =>
+  balances.get(normalizeCoinType(coinType)) ?? 0n;
+
+/**
+ * Pre-flight balance check for a form. `shortfall` is a message to show (and
+ * a reason to disable submit) once balances have loaded; it stays `null` while
+ * loading or when there is nothing to check yet.
+ */
+export function useBalanceCheck(
+  owner: string,
+  coin: CoinInfo | undefined,
+  required: bigint | null,
+  gasBudget?: bigint
+) {
+  const balances = useBalances(owner);
+
+  const shortfall =
+    coin && required !== null && balances.data
+      ? getBalanceShortfall({
+          coin,
+          required,
+          coinBalance: balanceOf(balances.data, coin.coinType),
+          suiBalance: balanceOf(balances.data, SUI_COIN_TYPE),
+          gasBudget,
+        })
+      : null;
+
+  return {
+    isLoading: balances.isLoading,
+    shortfall,
+    refetch: balances.refetch,
+  };
+}
+
+/**
+ * `useBalanceCheck` for a transaction spending several coin types at once.
+ * Amounts of the same coin type are added up; `shortfall` is the first
+ * coin the wallet cannot cover.
+ */
+export function useBalanceChecks(
+  owner: string,
+  requirements: Array<{ coin: CoinInfo; required: bigint }>,
+  gasBudget?: bigint
+) {
+  const balances = useBalances(owner);
+
+  const totals = new Map<string, { coin: CoinInfo; required: bigint }>();
+  for (const { coin, required } of requirements) {
+    const key = normalizeCoinType(coin.coinType);
+    totals.set(key, { coin, required: (totals.get(key)?.required ?? 0n) + required });
+  }
+
+  const shortfall = balances.data
+    ? [...totals.values()]
+        .map(({ coin, required }) =>
+          getBalanceShortfall({
+            coin,
+            required,
+            coinBalance: balanceOf(balances.data, coin.coinType),
+            suiBalance: balanceOf(balances.data, SUI_COIN_TYPE),
+            gasBudget,
+          })
+        )
+        .find((message) => message !== null) ?? null
+    : null;
+
+  return {
+    isLoading: balances.isLoading,
+    shortfall,
+    refetch: balances.refetch,
+  };
+}
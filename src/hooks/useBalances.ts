@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { normalizeCoinType } from '../lib/coinRegistry';
+
+/** `owner`'s total balance of every coin type it holds, keyed by normalized coin type. */
+export function useBalances(owner: string | null | undefined) {
+  const suiClient = useSuiClient();
+
+  return useQuery({
+    queryKey: ['balances', owner],
+    queryFn: async () => {
+      const balances = await suiClient.getAllBalances({ owner: owner! });
+      return new Map(balances.map((balance) => [normalizeCoinType(balance.coinType), BigInt(balance.totalBalance)]));
+    },
+    enabled: !!owner,
+  });
+}
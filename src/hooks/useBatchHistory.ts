@@ -0,0 +1,13 @@
+import { parseBatches } from '../lib/activity';
+import { useWalletActivity } from './useWalletActivity';
+
+/** The wallet's batches, newest first, from the same activity index as `useEscrows`. */
+export function useBatchHistory(owner: string | null | undefined) {
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+  const activity = useWalletActivity(owner);
+
+  return {
+    ...activity,
+    data: activity.data ? parseBatches(activity.data.sent, packageId) : undefined,
+  };
+}
@@ -0,0 +1,33 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { getCoinInfo, type CoinInfo } from '../lib/coinRegistry';
+
+/** Coin metadata for rendering; `undefined` while loading or when `coinType` is empty. */
+export function useCoinInfo(coinType: string | null | undefined) {
+  const suiClient = useSuiClient();
+
+  return useQuery({
+    queryKey: ['coin-info', coinType],
+    queryFn: () => getCoinInfo(suiClient, coinType!),
+    enabled: !!coinType,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+/** Metadata for several coin types, keyed by the types as given; types still loading or unknown are absent. */
+export function useCoinInfos(coinTypes: string[]): Map<string, CoinInfo> {
+  const suiClient = useSuiClient();
+  const uniqueTypes = [...new Set(coinTypes.filter(Boolean))];
+
+  return useQueries({
+    queries: uniqueTypes.map((coinType) => ({
+      queryKey: ['coin-info', coinType],
+      queryFn: () => getCoinInfo(suiClient, coinType),
+      staleTime: Infinity,
+      retry: false,
+    })),
+    combine: (results) =>
+      new Map(results.flatMap((result, i) => (result.data ? [[uniqueTypes[i], result.data] as const] : []))),
+  });
+}
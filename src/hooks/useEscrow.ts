@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { fetchEscrow } from '../lib/escrowQuery';
+
+/** An escrow by object ID: open (with its bundle), a milestone escrow, or how it closed. */
+export function useEscrow(escrowId: string | null | undefined) {
+  const suiClient = useSuiClient();
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+
+  return useQuery({
+    queryKey: ['escrow', packageId, escrowId],
+    queryFn: () => fetchEscrow(suiClient, packageId, escrowId!),
+    enabled: !!escrowId && !!packageId,
+  });
+}
@@ -0,0 +1,38 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { getOpenEscrows } from '../lib/activity';
+import type { EventCursor } from '../lib/escrowQuery';
+import { fetchMilestoneEscrows } from '../lib/milestones';
+import { useWalletActivity } from './useWalletActivity';
+
+/**
+ * Open escrows the wallet created, receives or arbitrates, newest first, from
+ * its activity index; the rest of the result controls that index.
+ */
+export function useEscrows(owner: string | null | undefined) {
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+  const activity = useWalletActivity(owner);
+
+  return {
+    ...activity,
+    data: activity.data ? getOpenEscrows(activity.data, packageId) : undefined,
+  };
+}
+
+/**
+ * Milestone escrows the wallet created or receives, including completed ones,
+ * a batch of milestone lock events at a time. Call `fetchNextPage` while
+ * `hasNextPage` to reach older ones.
+ */
+export function useMilestoneEscrows(owner: string | null | undefined) {
+  const suiClient = useSuiClient();
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+
+  return useInfiniteQuery({
+    queryKey: ['milestone-escrows', packageId, owner],
+    queryFn: ({ pageParam }) => fetchMilestoneEscrows(suiClient, packageId, owner!, pageParam),
+    initialPageParam: null as EventCursor,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!owner && !!packageId,
+  });
+}
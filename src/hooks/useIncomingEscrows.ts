@@ -0,0 +1,20 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { fetchIncomingEscrows, type EventCursor } from '../lib/escrowQuery';
+
+/**
+ * Open escrows addressed to `recipient`, newest first, a batch of escrow
+ * events at a time. Call `fetchNextPage` while `hasNextPage` to reach older ones.
+ */
+export function useIncomingEscrows(recipient: string | null | undefined) {
+  const suiClient = useSuiClient();
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+
+  return useInfiniteQuery({
+    queryKey: ['incoming-escrows', packageId, recipient],
+    queryFn: ({ pageParam }) => fetchIncomingEscrows(suiClient, packageId, recipient!, pageParam),
+    initialPageParam: null as EventCursor,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!recipient && !!packageId,
+  });
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { fetchEscrowedNft } from '../lib/nfts';
+
+/** Name, image and collection of an NFT, including one wrapped in escrow `escrowId`. */
+export function useNftPreview(nftId: string | null | undefined, escrowId?: string) {
+  const suiClient = useSuiClient();
+
+  return useQuery({
+    queryKey: ['nft-preview', nftId, escrowId ?? null],
+    queryFn: () => fetchEscrowedNft(suiClient, nftId!, escrowId),
+    enabled: !!nftId,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+}
@@ -0,0 +1,19 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { fetchOwnedNfts } from '../lib/nfts';
+
+/**
+ * The wallet's NFTs a page at a time, optionally of one Move type. Call
+ * `fetchNextPage` while `hasNextPage` to load more.
+ */
+export function useOwnedNfts(owner: string | null | undefined, type?: string | null, enabled = true) {
+  const suiClient = useSuiClient();
+
+  return useInfiniteQuery({
+    queryKey: ['owned-nfts', owner, type ?? null],
+    queryFn: ({ pageParam }) => fetchOwnedNfts(suiClient, owner!, { type, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!owner && enabled,
+  });
+}
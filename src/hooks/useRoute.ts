@@ -0,0 +1,29 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { parseRoute, routePath, type Route } from '../lib/routes';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  return () => window.removeEventListener('popstate', onChange);
+};
+
+const getPathname = () => window.location.pathname;
+
+/**
+ * Current route from the browser URL. `navigate` pushes a history entry (or
+ * replaces the current one), so back/forward move between views.
+ */
+export function useRoute() {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+
+  const navigate = useCallback((route: Route, { replace = false } = {}) => {
+    const path = routePath(route);
+    if (path === window.location.pathname) return;
+    if (replace) window.history.replaceState(null, '', path);
+    else window.history.pushState(null, '', path);
+    // pushState does not fire popstate, so notify subscribers ourselves
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    window.scrollTo(0, 0);
+  }, []);
+
+  return { route: parseRoute(pathname), navigate };
+}
@@ -0,0 +1,45 @@
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+
+// What a transaction can change: the wallet's coins and NFTs, and escrow listings
+const BALANCE_QUERIES: QueryKey[] = [['balances'], ['wallet-tokens'], ['owned-nfts']];
+const ESCROW_QUERIES: QueryKey[] = [['wallet-activity'], ['incoming-escrows'], ['milestone-escrows'], ['escrow']];
+
+/**
+ * `useSignAndExecuteTransaction` that refreshes `queryKeys` once the
+ * transaction has executed. The refresh waits for the full node to index the
+ * transaction, so the queries do not read the state from before it.
+ */
+function useExecuteAndInvalidate(queryKeys: QueryKey[]) {
+  const suiClient = useSuiClient();
+  const queryClient = useQueryClient();
+
+  return useSignAndExecuteTransaction({
+    onSuccess: (result) => {
+      suiClient
+        .waitForTransaction({ digest: result.digest })
+        .catch((error) => console.warn('Could not wait for transaction to be indexed:', error))
+        .then(() => Promise.all(queryKeys.map((queryKey) => queryClient.invalidateQueries({ queryKey }))));
+    },
+  });
+}
+
+/** Locks escrows, including milestone and arbiter escrows. */
+export function useCreateEscrow() {
+  return useExecuteAndInvalidate([...BALANCE_QUERIES, ...ESCROW_QUERIES]);
+}
+
+/** Claims escrows and milestones, approves milestones and settles arbiter escrows. */
+export function useClaimEscrow() {
+  return useExecuteAndInvalidate([...BALANCE_QUERIES, ...ESCROW_QUERIES]);
+}
+
+/** Cancels escrows, refunding their creator. */
+export function useCancelEscrow() {
+  return useExecuteAndInvalidate([...BALANCE_QUERIES, ...ESCROW_QUERIES]);
+}
+
+/** Direct and batch token transfers; time-locked batches also lock escrows. */
+export function useSendTokens() {
+  return useExecuteAndInvalidate([...BALANCE_QUERIES, ...ESCROW_QUERIES]);
+}
@@ -0,0 +1,161 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import type { SuiClient } from '@mysten/sui/client';
+import { toast } from 'sonner';
+import { extendActivityIndex, refreshActivityIndex, type ActivityIndex } from '../lib/activity';
+import {
+  activityCacheKey,
+  deleteActivityIndex,
+  loadActivityIndex,
+  saveActivityIndex,
+} from '../lib/activityCache';
+import {
+  ACTIVITY_POLL_INTERVAL_MS,
+  findActivityUpdates,
+  getPollDelay,
+  type ActivityUpdate,
+} from '../lib/activityUpdates';
+import { formatAmount } from '../lib/amount';
+import { coinSymbolFromType, getCoinInfos } from '../lib/coinRegistry';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const CLOSED_TITLES = {
+  claimed: 'Escrow claimed',
+  cancelled: 'Escrow cancelled',
+  released: 'Escrow released',
+  refunded: 'Escrow refunded',
+  closed: 'Escrow closed',
+};
+
+/** Raises a toast for each update, from `owner`'s point of view. */
+async function announceUpdates(client: SuiClient, owner: string, updates: ActivityUpdate[]) {
+  const coinInfos = await getCoinInfos(client, updates.flatMap((update) => {
+    if (update.kind === 'batch-sent') return [update.batch.tokenType];
+    return update.escrow.isNft ? [] : [update.escrow.assetType];
+  }));
+
+  const describeAmount = (coinType: string, amount: bigint | string) => {
+    const coinInfo = coinInfos.get(coinType);
+    const symbol = coinInfo?.symbol || coinSymbolFromType(coinType);
+    // Without metadata the decimals are unknown, so show base units
+    return `${coinInfo ? formatAmount(amount, coinInfo.decimals, { maxFractionDigits: 4 }) : String(amount)} ${symbol}`;
+  };
+  const self = owner.toLowerCase();
+
+  for (const update of updates) {
+    if (update.kind === 'batch-sent') {
+      const { batch } = update;
+      toast.success(batch.unlockTime ? 'Time-locked batch created' : 'Batch sent', {
+        description: `${describeAmount(batch.tokenType, batch.total)} to ${batch.recipients} recipients`,
+      });
+      continue;
+    }
+
+    const { escrow } = update;
+    const asset = escrow.isNft ? `${coinSymbolFromType(escrow.assetType)} NFT` : describeAmount(escrow.assetType, escrow.amount);
+    const isCreator = escrow.creator.toLowerCase() === self;
+
+    if (update.kind === 'escrow-locked') {
+      if (isCreator) {
+        toast.success('Escrow created', { description: `${asset} for ${shortAddress(escrow.recipient)}` });
+      } else if (escrow.recipient.toLowerCase() === self) {
+        toast.success('New escrow for you', { description: `${asset} from ${shortAddress(escrow.creator)}` });
+      } else {
+        toast('You were named arbiter', { description: `${asset} from ${shortAddress(escrow.creator)}` });
+      }
+    } else {
+      const counterparty = isCreator ? `for ${shortAddress(escrow.recipient)}` : `from ${shortAddress(escrow.creator)}`;
+      toast(CLOSED_TITLES[update.state], { description: `${asset} ${counterparty}` });
+    }
+  }
+}
+
+/**
+ * The wallet's batches and escrow events. The locally cached index is shown
+ * while newer events are fetched, and new events are polled for and announced
+ * as toasts; `loadOlder` adds the next page of history while `hasOlder`, and
+ * `rebuild` drops the cache and indexes from scratch.
+ */
+export function useWalletActivity(owner: string | null | undefined) {
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const queryClient = useQueryClient();
+  const packageId = import.meta.env.VITE_PACKAGE_ID;
+
+  const cacheKey = owner ? activityCacheKey(network, packageId, owner) : '';
+  const cacheQueryKey = ['wallet-activity-cache', cacheKey];
+  const queryKey = ['wallet-activity', network, packageId, owner];
+  const enabled = !!owner && !!packageId;
+
+  const persist = async (index: ActivityIndex) => {
+    await saveActivityIndex(cacheKey, index);
+    queryClient.setQueryData(cacheQueryKey, index);
+    return index;
+  };
+
+  const cached = useQuery({
+    queryKey: cacheQueryKey,
+    queryFn: () => loadActivityIndex(cacheKey),
+    enabled,
+    staleTime: Infinity,
+  });
+
+  const index = useQuery({
+    queryKey,
+    queryFn: async () => {
+      // Only changes found while the Dashboard is open are announced, not the catch-up on load
+      const previous = queryClient.getQueryData<ActivityIndex>(queryKey);
+      const updated = await persist(
+        await refreshActivityIndex(suiClient, packageId, owner!, await loadActivityIndex(cacheKey))
+      );
+
+      if (previous) {
+        findActivityUpdates(suiClient, packageId, previous, updated)
+          .then((updates) => {
+            if (updates.some((update) => update.kind !== 'batch-sent')) {
+              queryClient.invalidateQueries({ queryKey: ['incoming-escrows'] });
+            }
+            return announceUpdates(suiClient, owner!, updates);
+          })
+          .catch((error) => console.warn('Could not announce activity updates:', error));
+      }
+      return updated;
+    },
+    enabled,
+    placeholderData: cached.data ?? undefined,
+    // Polls for new activity, backing off while refreshes keep failing
+    refetchInterval: (query) =>
+      ACTIVITY_POLL_INTERVAL_MS > 0 && getPollDelay(ACTIVITY_POLL_INTERVAL_MS, query.state.fetchFailureCount),
+  });
+
+  const loadOlder = useMutation({
+    mutationFn: async () => {
+      const current = queryClient.getQueryData<ActivityIndex>(queryKey);
+      if (!current?.next) return current;
+      return persist(await extendActivityIndex(suiClient, packageId, owner!, current));
+    },
+    onSuccess: (data) => data && queryClient.setQueryData(queryKey, data),
+  });
+
+  const rebuild = useMutation({
+    mutationFn: async () => {
+      await deleteActivityIndex(cacheKey);
+      queryClient.setQueryData(cacheQueryKey, null);
+      await queryClient.resetQueries({ queryKey, exact: true });
+    },
+  });
+
+  return {
+    data: index.data,
+    error: index.error,
+    isLoading: index.isLoading,
+    /** Fetching newer events, possibly while cached data is shown. */
+    isRefreshing: index.isFetching,
+    hasOlder: !!index.data?.next && !index.isPlaceholderData,
+    loadOlder: () => loadOlder.mutate(),
+    isLoadingOlder: loadOlder.isPending,
+    rebuild: () => rebuild.mutate(),
+    isRebuilding: rebuild.isPending,
+  };
+}
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSuiClient } from '@mysten/dapp-kit';
+import {
+  DEFAULT_COIN_TYPES,
+  getCoinInfos,
+  isSuiCoinType,
+  normalizeCoinType,
+  type CoinInfo,
+} from '../lib/coinRegistry';
+
+export interface WalletToken extends CoinInfo {
+  balance: bigint;
+}
+
+/**
+ * Every coin type held by `owner` with its metadata and total balance, plus
+ * the default tokens at zero balance. SUI is listed first, the rest by symbol.
+ */
+export function useWalletTokens(owner: string | null | undefined) {
+  const suiClient = useSuiClient();
+
+  return useQuery({
+    queryKey: ['wallet-tokens', owner],
+    queryFn: async (): Promise<WalletToken[]> => {
+      const balances = await suiClient.getAllBalances({ owner: owner! });
+
+      const totals = new Map<string, bigint>();
+      for (const coinType of DEFAULT_COIN_TYPES) {
+        totals.set(normalizeCoinType(coinType), 0n);
+      }
+      for (const balance of balances) {
+        totals.set(normalizeCoinType(balance.coinType), BigInt(balance.totalBalance));
+      }
+
+      const coinInfos = await getCoinInfos(suiClient, [...totals.keys()]);
+
+      return [...totals.entries()]
+        .filter(([coinType]) => coinInfos.has(coinType))
+        .map(([coinType, balance]) => ({ ...coinInfos.get(coinType)!, balance }))
+        .sort((a, b) => {
+          if (isSuiCoinType(a.coinType) !== isSuiCoinType(b.coinType)) {
+            return isSuiCoinType(a.coinType) ? -1 : 1;
+          }
+          return a.symbol.localeCompare(b.symbol);
+        });
+    },
+    enabled: !!owner,
+  });
+}
@@ -0,0 +1,66 @@
+import type { SuiEvent } from '@mysten/sui/client';
+import { describe, expect, it } from 'vitest';
+import { parseBatches } from './activity';
+
+const PACKAGE = '0xpkg';
+const SUI = '0x2::sui::SUI';
+const USDC = '0xa::usdc::USDC';
+const UNLOCK = '1900000000000';
+
+let seq = 0;
+const event = (digest: string, type: string, parsedJson: Record<string, unknown>): SuiEvent => ({
+  id: { txDigest: digest, eventSeq: String(seq++) },
+  packageId: PACKAGE,
+  transactionModule: 'escrow',
+  sender: '0xcreator',
+  type: `${PACKAGE}::${type}`,
+  parsedJson,
+  bcs: '',
+  bcsEncoding: 'base64',
+  timestampMs: '1700000000000',
+});
+
+const coinLock = (digest: string, recipient: string, overrides: Record<string, unknown> = {}, coinType = USDC) =>
+  event(digest, `escrow::CoinLockEvent<${coinType}, ${SUI}>`, {
+    escrow_id: `0xescrow-${seq}`,
+    creator: '0xcreator',
+    recipient,
+    amount: '100',
+    price: '0',
+    unlock_time: UNLOCK,
+    expiry_time: '0',
+    ...overrides,
+  });
+
+describe('parseBatches', () => {
+  it('reads batch_send_token events', () => {
+    const [batch] = parseBatches([
+      event('tx1', `batch::BatchTokenEvent<${USDC}>`, { total_amount: '500', recipient_count: '3' }),
+    ], PACKAGE);
+    expect(batch).toMatchObject({ digest: 'tx1', tokenType: USDC, total: 500n, recipients: 3 });
+    expect(batch.escrowIds).toBeUndefined();
+  });
+
+  it('groups unpriced time-locked escrows to different recipients into one batch', () => {
+    const locks = [coinLock('tx2', '0xa'), coinLock('tx2', '0xb')];
+    const [batch] = parseBatches(locks, PACKAGE);
+    expect(batch).toMatchObject({ digest: 'tx2', total: 200n, recipients: 2, unlockTime: Number(UNLOCK) });
+    expect(batch.escrowIds).toEqual(locks.map((lock) => (lock.parsedJson as { escrow_id: string }).escrow_id));
+  });
+
+  it('treats a single unpriced time-locked escrow as a one-recipient batch', () => {
+    expect(parseBatches([coinLock('tx3', '0xa')], PACKAGE)).toHaveLength(1);
+  });
+
+  it('leaves escrows that BatchCreate would not build to the escrow list', () => {
+    expect(parseBatches([coinLock('tx4', '0xa'), coinLock('tx4', '0xa')], PACKAGE)).toEqual([]);
+    expect(parseBatches([coinLock('tx5', '0xa', { price: '10' })], PACKAGE)).toEqual([]);
+    expect(parseBatches([coinLock('tx6', '0xa', { unlock_time: '0' })], PACKAGE)).toEqual([]);
+    expect(parseBatches([coinLock('tx7', '0xa', { expiry_time: '1950000000000' })], PACKAGE)).toEqual([]);
+    expect(parseBatches([coinLock('tx8', '0xa'), coinLock('tx8', '0xb', {}, SUI)], PACKAGE)).toEqual([]);
+    expect(parseBatches([
+      coinLock('tx9', '0xa'),
+      event('tx9', `escrow::NftLockEvent<0xb::nft::Nft, ${SUI}>`, { escrow_id: '0xnft', recipient: '0xb' }),
+    ], PACKAGE)).toEqual([]);
+  });
+});
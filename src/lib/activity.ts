@@ -0,0 +1,344 @@
+// The Dashboard's history is read from two paged event streams. Everything the
+// wallet's own transactions emitted (batches and the escrows it created) comes
+// from a `Sender` query; escrows others created for it as recipient or arbiter
+// are found by scanning the escrow module's events. Each stream keeps its own
+// cursor, so "load more" continues both where they left off and no event is
+// fetched twice. What has been loaded is kept as an `ActivityIndex`, which
+// `refreshActivityIndex` brings up to date by fetching only newer events.
+
+import type { EventId, SuiClient, SuiEvent } from '@mysten/sui/client';
+import { isSuiCoinType } from './coinRegistry';
+import { isEscrowLockEvent, parseLockEvent, splitTypeArguments, type EscrowRecord } from './escrowQuery';
+
+export const ACTIVITY_PAGE_SIZE = 50;
+/** Pages of newer events a refresh reads before giving up and starting over. */
+const MAX_REFRESH_PAGES = 5;
+
+/** Where each stream continues; `done` once it has no more pages. */
+export interface StreamCursor {
+  cursor: EventId | null;
+  done: boolean;
+}
+
+export interface ActivityCursor {
+  sent: StreamCursor;
+  received: StreamCursor;
+}
+
+export const INITIAL_ACTIVITY_CURSOR: ActivityCursor = {
+  sent: { cursor: null, done: false },
+  received: { cursor: null, done: false },
+};
+
+/** Newest event read from each stream, before filtering. */
+export interface ActivityHead {
+  sent: EventId | null;
+  received: EventId | null;
+}
+
+export interface ActivityPage {
+  /** This package's events emitted by the wallet's own transactions. */
+  sent: SuiEvent[];
+  /** Escrow lock events from other senders naming the wallet as recipient or arbiter. */
+  received: SuiEvent[];
+  /** Escrows among this page's lock events whose objects still exist, i.e. not claimed or cancelled. */
+  openEscrowIds: string[];
+  head: ActivityHead;
+  /** `null` once both streams are exhausted. */
+  next: ActivityCursor | null;
+}
+
+/** Everything loaded for one wallet so far, newest first. */
+export interface ActivityIndex {
+  sent: SuiEvent[];
+  received: SuiEvent[];
+  openEscrowIds: string[];
+  /** Refreshes fetch only events newer than these. */
+  head: ActivityHead;
+  /** Where older history continues; `null` once all of it is loaded. */
+  next: ActivityCursor | null;
+  updatedAt: number;
+}
+
+interface LockEventFields {
+  escrow_id: string;
+  creator: string;
+  recipient: string;
+  amount?: string;
+  unlock_time: string;
+  arbiter?: string;
+}
+
+type EventQuery = Parameters<SuiClient['queryEvents']>[0]['query'];
+
+const lockFields = (event: SuiEvent) => event.parsedJson as LockEventFields;
+
+const sameEvent = (a: EventId, b: EventId) => a.txDigest === b.txDigest && a.eventSeq === b.eventSeq;
+
+const streamQueries = (packageId: string, owner: string): { sent: EventQuery; received: EventQuery } => ({
+  sent: { Sender: owner },
+  received: { MoveEventModule: { package: packageId, module: 'escrow' } },
+});
+
+// Transactions can also emit events of other packages, which are never shown
+const packageEvents = (events: SuiEvent[], packageId: string) =>
+  events.filter((event) => event.type.startsWith(`${packageId}::`));
+
+// The wallet's own escrows already come from the sent stream
+function receivedLocks(events: SuiEvent[], packageId: string, owner: string): SuiEvent[] {
+  const self = owner.toLowerCase();
+  return events.filter((event) => {
+    if (!isEscrowLockEvent(event, packageId)) return false;
+    const data = lockFields(event);
+    return data.creator.toLowerCase() !== self &&
+      (data.recipient.toLowerCase() === self || data.arbiter?.toLowerCase() === self);
+  });
+}
+
+const lockedEscrowIds = (events: SuiEvent[], packageId: string) =>
+  events.filter((event) => isEscrowLockEvent(event, packageId)).map((event) => lockFields(event).escrow_id);
+
+/** The escrows among `escrowIds` whose objects still exist. */
+async function findOpenEscrowIds(client: SuiClient, escrowIds: string[]): Promise<string[]> {
+  const ids = [...new Set(escrowIds)];
+  const open: string[] = [];
+  for (let i = 0; i < ids.length; i += 50) {
+    const objects = await client.multiGetObjects({ ids: ids.slice(i, i + 50) });
+    objects.forEach((obj) => obj.data && open.push(obj.data.objectId));
+  }
+  return open;
+}
+
+async function fetchStream(
+  client: SuiClient,
+  query: EventQuery,
+  stream: StreamCursor,
+  pageSize: number
+): Promise<{ events: SuiEvent[]; stream: StreamCursor }> {
+  if (stream.done) return { events: [], stream };
+
+  const page = await client.queryEvents({ query, cursor: stream.cursor, order: 'descending', limit: pageSize });
+  return {
+    events: page.data,
+    stream: { cursor: page.nextCursor ?? null, done: !page.hasNextPage },
+  };
+}
+
+/**
+ * Events newer than `head`, newest first, or `null` when more than
+ * `MAX_REFRESH_PAGES` pages of them arrived since.
+ */
+async function fetchEventsSince(
+  client: SuiClient,
+  query: EventQuery,
+  head: EventId | null,
+  pageSize: number
+): Promise<SuiEvent[] | null> {
+  const events: SuiEvent[] = [];
+  let cursor: EventId | null = null;
+
+  for (let i = 0; i < MAX_REFRESH_PAGES; i++) {
+    const page = await client.queryEvents({ query, cursor, order: 'descending', limit: pageSize });
+    const seen = head ? page.data.findIndex((event) => sameEvent(event.id, head)) : -1;
+    if (seen >= 0) return [...events, ...page.data.slice(0, seen)];
+
+    events.push(...page.data);
+    if (!page.hasNextPage) return events;
+    cursor = page.nextCursor ?? null;
+  }
+  return null;
+}
+
+/** Loads the next page of both streams and checks which of their escrows are still open. */
+export async function fetchActivityPage(
+  client: SuiClient,
+  packageId: string,
+  owner: string,
+  cursor: ActivityCursor = INITIAL_ACTIVITY_CURSOR,
+  pageSize = ACTIVITY_PAGE_SIZE
+): Promise<ActivityPage> {
+  const queries = streamQueries(packageId, owner);
+  const [sent, received] = await Promise.all([
+    fetchStream(client, queries.sent, cursor.sent, pageSize),
+    fetchStream(client, queries.received, cursor.received, pageSize),
+  ]);
+
+  const sentEvents = packageEvents(sent.events, packageId);
+  const receivedEvents = receivedLocks(received.events, packageId, owner);
+  const openEscrowIds = await findOpenEscrowIds(client, lockedEscrowIds([...sentEvents, ...receivedEvents], packageId));
+
+  const next = { sent: sent.stream, received: received.stream };
+  return {
+    sent: sentEvents,
+    received: receivedEvents,
+    openEscrowIds,
+    head: { sent: sent.events[0]?.id ?? null, received: received.events[0]?.id ?? null },
+    next: next.sent.done && next.received.done ? null : next,
+  };
+}
+
+const indexFromPage = ({ sent, received, openEscrowIds, head, next }: ActivityPage): ActivityIndex => ({
+  sent,
+  received,
+  openEscrowIds,
+  head,
+  next,
+  updatedAt: Date.now(),
+});
+
+/**
+ * Brings `index` up to date: adds the events since its head and rechecks which
+ * of its escrows are still open. Without an index, or when too much happened
+ * since it was built, a new one is started from the newest page.
+ */
+export async function refreshActivityIndex(
+  client: SuiClient,
+  packageId: string,
+  owner: string,
+  index: ActivityIndex | null,
+  pageSize = ACTIVITY_PAGE_SIZE
+): Promise<ActivityIndex> {
+  if (!index) return indexFromPage(await fetchActivityPage(client, packageId, owner, INITIAL_ACTIVITY_CURSOR, pageSize));
+
+  const queries = streamQueries(packageId, owner);
+  const [sent, received] = await Promise.all([
+    fetchEventsSince(client, queries.sent, index.head.sent, pageSize),
+    fetchEventsSince(client, queries.received, index.head.received, pageSize),
+  ]);
+  if (!sent || !received) {
+    return indexFromPage(await fetchActivityPage(client, packageId, owner, INITIAL_ACTIVITY_CURSOR, pageSize));
+  }
+
+  const sentEvents = packageEvents(sent, packageId);
+  const receivedEvents = receivedLocks(received, packageId, owner);
+  const openEscrowIds = await findOpenEscrowIds(client, [
+    ...lockedEscrowIds([...sentEvents, ...receivedEvents], packageId),
+    ...index.openEscrowIds,
+  ]);
+
+  return {
+    sent: [...sentEvents, ...index.sent],
+    received: [...receivedEvents, ...index.received],
+    openEscrowIds,
+    head: { sent: sent[0]?.id ?? index.head.sent, received: received[0]?.id ?? index.head.received },
+    next: index.next,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Adds the next page of older history to `index`. */
+export async function extendActivityIndex(
+  client: SuiClient,
+  packageId: string,
+  owner: string,
+  index: ActivityIndex,
+  pageSize = ACTIVITY_PAGE_SIZE
+): Promise<ActivityIndex> {
+  if (!index.next) return index;
+
+  const page = await fetchActivityPage(client, packageId, owner, index.next, pageSize);
+  return {
+    sent: [...index.sent, ...page.sent],
+    received: [...index.received, ...page.received],
+    openEscrowIds: [...index.openEscrowIds, ...page.openEscrowIds],
+    head: index.head,
+    next: page.next,
+    updatedAt: Date.now(),
+  };
+}
+
+/** An escrow from the activity index, with the transaction that locked it. */
+export interface IndexedEscrow extends EscrowRecord {
+  digest: string;
+}
+
+/** The escrows in `index` that are still open, newest first. */
+export function getOpenEscrows(index: ActivityIndex, packageId: string): IndexedEscrow[] {
+  const open = new Set(index.openEscrowIds);
+  const escrows = new Map<string, IndexedEscrow>();
+  for (const event of [...index.sent, ...index.received]) {
+    if (!isEscrowLockEvent(event, packageId)) continue;
+    const record = parseLockEvent(event);
+    if (open.has(record.id) && !escrows.has(record.id)) {
+      escrows.set(record.id, { ...record, digest: event.id.txDigest });
+    }
+  }
+  return [...escrows.values()].sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+}
+
+/** A `batch_send_token` call, or a time-locked batch that locked one escrow per recipient. */
+export interface BatchRecord {
+  digest: string;
+  tokenType: string;
+  /** Base units of `tokenType`. */
+  total: bigint;
+  recipients: number;
+  createdAt: number;
+  /** Time-locked batches only: their escrows and when they unlock. */
+  escrowIds?: string[];
+  unlockTime?: number;
+}
+
+/**
+ * The escrows of a time-locked batch, if a transaction's events are one, which
+ * BatchCreate builds as one unpriced `escrow::lock_coin` per recipient, all
+ * of the same coin with the same unlock time and SUI as the payment type.
+ * EscrowCreate bundles lock several escrows for one recipient and are not
+ * batches, but a lone unpriced time-locked coin escrow cannot be told apart
+ * from a one-recipient batch and is listed as one.
+ */
+function parseTimeLockedBatch(events: SuiEvent[], packageId: string): EscrowRecord[] | null {
+  if (!events.every((e) => e.type.startsWith(`${packageId}::escrow::CoinLockEvent`))) return null;
+  const locks = events.map(parseLockEvent);
+  const [first] = locks;
+  const isBatch = !!first && first.unlockTime > 0 &&
+    locks.every((lock) =>
+      lock.assetType === first.assetType && lock.unlockTime === first.unlockTime && lock.price === '0' &&
+      isSuiCoinType(lock.paymentType) && !lock.expiryTime && !lock.arbiter
+    ) &&
+    new Set(locks.map((lock) => lock.recipient.toLowerCase())).size === locks.length;
+  return isBatch ? locks : null;
+}
+
+/**
+ * Batches among the wallet's own events, newest first. Failed transactions
+ * emit no events, so every batch found here executed.
+ */
+export function parseBatches(sentEvents: SuiEvent[], packageId: string): BatchRecord[] {
+  const byTransaction = new Map<string, SuiEvent[]>();
+  for (const event of sentEvents) {
+    byTransaction.set(event.id.txDigest, [...(byTransaction.get(event.id.txDigest) ?? []), event]);
+  }
+
+  const batches: BatchRecord[] = [];
+  for (const [digest, events] of byTransaction) {
+    const createdAt = Number(events[0].timestampMs ?? 0);
+
+    const batchEvent = events.find((e) => e.type.startsWith(`${packageId}::batch::BatchTokenEvent`));
+    if (batchEvent) {
+      const data = batchEvent.parsedJson as { total_amount: string; recipient_count: string };
+      batches.push({
+        digest,
+        tokenType: splitTypeArguments(batchEvent.type)[0] ?? 'Unknown',
+        total: BigInt(data.total_amount),
+        recipients: Number(data.recipient_count),
+        createdAt,
+      });
+      continue;
+    }
+
+    const locks = parseTimeLockedBatch(events, packageId);
+    if (locks) {
+      batches.push({
+        digest,
+        tokenType: locks[0].assetType,
+        total: locks.reduce((sum, lock) => sum + BigInt(lock.amount), 0n),
+        recipients: locks.length,
+        createdAt,
+        escrowIds: locks.map((lock) => lock.id),
+        unlockTime: locks[0].unlockTime,
+      });
+    }
+  }
+  return batches.sort((a, b) => b.createdAt - a.createdAt);
+}
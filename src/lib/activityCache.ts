@@ -0,0 +1,64 @@
+// The Dashboard's activity index is kept in IndexedDB, one entry per network,
+// package and wallet, so a reload shows it at once and only has to fetch what
+// happened since. The cache is best effort: when IndexedDB is unavailable
+// (e.g. some private browsing modes) history is simply fetched again.
+
+import type { ActivityIndex } from './activity';
+
+const DB_NAME = 'sui-proto-activity';
+const DB_VERSION = 1;
+const STORE = 'activity-index';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const pending = request(db.transaction(STORE, mode).objectStore(STORE));
+    pending.onsuccess = () => resolve(pending.result);
+    pending.onerror = () => reject(pending.error);
+  });
+}
+
+export function activityCacheKey(network: string, packageId: string, owner: string): string {
+  return [network, packageId, owner.toLowerCase()].join(':');
+}
+
+/** The saved index, or `null` when there is none or it cannot be read. */
+export async function loadActivityIndex(key: string): Promise<ActivityIndex | null> {
+  try {
+    return (await runRequest<ActivityIndex | undefined>('readonly', (store) => store.get(key))) ?? null;
+  } catch (error) {
+    console.warn('Could not read the activity cache:', error);
+    return null;
+  }
+}
+
+export async function saveActivityIndex(key: string, index: ActivityIndex): Promise<void> {
+  try {
+    await runRequest('readwrite', (store) => store.put(index, key));
+  } catch (error) {
+    console.warn('Could not save the activity cache:', error);
+  }
+}
+
+export async function deleteActivityIndex(key: string): Promise<void> {
+  try {
+    await runRequest('readwrite', (store) => store.delete(key));
+  } catch (error) {
+    console.warn('Could not clear the activity cache:', error);
+  }
+}
@@ -0,0 +1,95 @@
+// Live updates: the activity index is refreshed on an interval, and whatever
+// changed between two refreshes is reported so it can be announced. Polling
+// backs off while the RPC keeps failing.
+
+import type { SuiClient, SuiEvent } from '@mysten/sui/client';
+import { parseBatches, type ActivityIndex, type BatchRecord } from './activity';
+import {
+  findClosingTransaction,
+  isEscrowLockEvent,
+  parseLockEvent,
+  type ClosedEscrowState,
+  type EscrowRecord,
+} from './escrowQuery';
+
+const DEFAULT_POLL_INTERVAL_MS = 15_000;
+const MAX_POLL_INTERVAL_MS = 5 * 60_000;
+// Closing transactions looked up per refresh; further closed escrows are reported as just 'closed'
+const MAX_CLOSING_LOOKUPS = 5;
+
+const configuredInterval = import.meta.env.VITE_ACTIVITY_POLL_MS;
+
+/** `VITE_ACTIVITY_POLL_MS`, or 15 seconds when unset; `0` turns live updates off. */
+export const ACTIVITY_POLL_INTERVAL_MS = configuredInterval && Number(configuredInterval) >= 0
+  ? Number(configuredInterval)
+  : DEFAULT_POLL_INTERVAL_MS;
+
+/** The poll interval, doubled for each consecutive failed refresh, up to 5 minutes. */
+export function getPollDelay(interval: number, failures: number): number {
+  return Math.min(interval * 2 ** failures, Math.max(interval, MAX_POLL_INTERVAL_MS));
+}
+
+export type ActivityUpdate =
+  | { kind: 'escrow-locked'; escrow: EscrowRecord }
+  /** `digest` is the closing transaction, when it was looked up. */
+  | { kind: 'escrow-closed'; escrow: EscrowRecord; state: ClosedEscrowState; digest?: string }
+  | { kind: 'batch-sent'; batch: BatchRecord };
+
+const eventKey = (event: SuiEvent) => `${event.id.txDigest}:${event.id.eventSeq}`;
+
+/**
+ * What changed from `previous` to `next`: batches and escrows locked since,
+ * and escrows that are no longer open, with how they closed.
+ */
+export async function findActivityUpdates(
+  client: SuiClient,
+  packageId: string,
+  previous: ActivityIndex,
+  next: ActivityIndex
+): Promise<ActivityUpdate[]> {
+  const known = new Set([...previous.sent, ...previous.received].map(eventKey));
+  const newSent = next.sent.filter((event) => !known.has(eventKey(event)));
+  const newReceived = next.received.filter((event) => !known.has(eventKey(event)));
+
+  const batches = parseBatches(newSent, packageId);
+  // Time-locked batches lock one escrow per recipient; those are announced as the batch
+  const batchEscrowIds = new Set(batches.flatMap((batch) => batch.escrowIds ?? []));
+  const locked = [...newSent, ...newReceived]
+    .filter((event) => isEscrowLockEvent(event, packageId))
+    .map(parseLockEvent)
+    .filter((escrow) => !batchEscrowIds.has(escrow.id));
+
+  const stillOpen = new Set(next.openEscrowIds);
+  // A refresh that started over no longer holds older escrows, which are not closed for that
+  const stillIndexed = new Set(
+    [...next.sent, ...next.received]
+      .filter((event) => isEscrowLockEvent(event, packageId))
+      .map((event) => parseLockEvent(event).id)
+  );
+  const previousLocks = new Map(
+    [...previous.sent, ...previous.received]
+      .filter((event) => isEscrowLockEvent(event, packageId))
+      .map((event) => {
+        const escrow = parseLockEvent(event);
+        return [escrow.id, escrow] as const;
+      })
+  );
+  const closed = previous.openEscrowIds
+    .filter((id) => !stillOpen.has(id) && stillIndexed.has(id))
+    .map((id) => previousLocks.get(id))
+    .filter((escrow): escrow is EscrowRecord => !!escrow);
+
+  const closedUpdates = await Promise.all(
+    closed.map(async (escrow, i): Promise<ActivityUpdate> => ({
+      kind: 'escrow-closed',
+      escrow,
+      ...(i < MAX_CLOSING_LOOKUPS ? await findClosingTransaction(client, escrow.id) : { state: 'closed' as const }),
+    }))
+  );
+
+  return [
+    ...batches.map((batch): ActivityUpdate => ({ kind: 'batch-sent', batch })),
+    ...locked.map((escrow): ActivityUpdate => ({ kind: 'escrow-locked', escrow })),
+    ...closedUpdates,
+  ];
+}
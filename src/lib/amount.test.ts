@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { formatAmount, getAmountError, parseAmount, tryParseAmount } from './amount';
+
+const MAX_U64 = '18446744073709551615';
+
+describe('getAmountError', () => {
+  it('requires an amount', () => {
+    expect(getAmountError('', 9)).toBe('Enter an amount');
+    expect(getAmountError('   ', 9)).toBe('Enter an amount');
+  });
+
+  it('accepts zero', () => {
+    expect(getAmountError('0', 9)).toBeNull();
+    expect(getAmountError('0.000', 9)).toBeNull();
+  });
+
+  it('rejects too many decimal places', () => {
+    expect(getAmountError('1.1234567', 6)).toBe('Too many decimal places (max 6)');
+    expect(getAmountError('0.0000000001', 9)).toBe('Too many decimal places (max 9)');
+    expect(getAmountError('0.000000001', 9)).toBeNull();
+  });
+
+  it('rejects decimals for 0-decimal coins', () => {
+    expect(getAmountError('1.5', 0)).toBe('This token does not support decimals');
+    expect(getAmountError('15', 0)).toBeNull();
+  });
+
+  it('rejects a lone dot but allows leading and trailing dots', () => {
+    expect(getAmountError('.', 9)).toBe('Amount must be a number');
+    expect(getAmountError('.5', 9)).toBeNull();
+    expect(getAmountError('5.', 9)).toBeNull();
+    expect(getAmountError('1.2.3', 9)).toBe('Amount must be a number');
+  });
+
+  it('rejects values above u64', () => {
+    expect(getAmountError(MAX_U64, 0)).toBeNull();
+    expect(getAmountError('18446744073709551616', 0)).toBe('Amount is too large');
+    expect(getAmountError('18446744073.709551616', 9)).toBe('Amount is too large');
+  });
+
+  it('rejects malformed input', () => {
+    expect(getAmountError('1e9', 9)).toBe('Scientific notation is not supported');
+    expect(getAmountError('-1', 9)).toBe('Amount cannot be negative');
+    expect(getAmountError('1,000', 9)).toBe("Remove thousands separators and use '.' for decimals");
+    expect(getAmountError('abc', 9)).toBe('Amount must be a number');
+  });
+});
+
+describe('parseAmount', () => {
+  it('converts to base units for 9-decimal coins', () => {
+    expect(parseAmount('1', 9)).toBe(1_000_000_000n);
+    expect(parseAmount('.5', 9)).toBe(500_000_000n);
+    expect(parseAmount('5.', 9)).toBe(5_000_000_000n);
+    expect(parseAmount('0.000000001', 9)).toBe(1n);
+  });
+
+  it('converts 0-decimal coins as whole units', () => {
+    expect(parseAmount('42', 0)).toBe(42n);
+    expect(parseAmount(MAX_U64, 0)).toBe(BigInt(MAX_U64));
+  });
+
+  it('parses zero', () => {
+    expect(parseAmount('0', 9)).toBe(0n);
+  });
+
+  it('throws on invalid input', () => {
+    expect(() => parseAmount('1.1234567', 6)).toThrow('Too many decimal places (max 6)');
+    expect(() => parseAmount('', 9)).toThrow('Enter an amount');
+  });
+
+  it('returns null from tryParseAmount instead of throwing', () => {
+    expect(tryParseAmount('18446744073709551616', 0)).toBeNull();
+    expect(tryParseAmount('2.5', 6)).toBe(2_500_000n);
+  });
+});
+
+describe('formatAmount', () => {
+  it('formats 9-decimal coins with grouping', () => {
+    expect(formatAmount(1_234_567_000_000_000n, 9)).toBe('1,234,567');
+    expect(formatAmount('1500000000', 9)).toBe('1.5');
+    expect(formatAmount(1n, 9)).toBe('0.000000001');
+  });
+
+  it('formats 0-decimal coins', () => {
+    expect(formatAmount(5n, 0)).toBe('5');
+    expect(formatAmount(12_345n, 0)).toBe('12,345');
+  });
+
+  it('formats zero', () => {
+    expect(formatAmount(0n, 9)).toBe('0');
+  });
+
+  it('truncates rather than rounds with maxFractionDigits', () => {
+    expect(formatAmount('1999999', 6, { maxFractionDigits: 2 })).toBe('1.99');
+    expect(formatAmount(1n, 9, { maxFractionDigits: 4 })).toBe('0');
+    expect(formatAmount('1050000', 6, { maxFractionDigits: 4 })).toBe('1.05');
+  });
+
+  it('can skip grouping', () => {
+    expect(formatAmount(1_234_567n, 0, { grouping: false })).toBe('1234567');
+  });
+
+  it('round-trips with parseAmount', () => {
+    expect(formatAmount(parseAmount(MAX_U64, 0), 0, { grouping: false })).toBe(MAX_U64);
+    expect(formatAmount(parseAmount('0.123456789', 9), 9)).toBe('0.123456789');
+  });
+});
@@ -0,0 +1,83 @@
+// Exact conversion between user-entered decimal strings and on-chain base units.
+// Everything stays in strings and bigints; floats never touch an amount.
+
+const MAX_U64 = (1n << 64n) - 1n;
+
+/**
+ * Returns a human readable reason why `input` is not a valid amount for a coin
+ * with `decimals` decimal places, or `null` when it parses.
+ */
+export function getAmountError(input: string, decimals: number): string | null {
+  const value = input.trim();
+
+  if (!value) return 'Enter an amount';
+  if (/[eE]/.test(value)) return 'Scientific notation is not supported';
+  if (value.startsWith('-')) return 'Amount cannot be negative';
+  if (/[,\s_']/.test(value)) return "Remove thousands separators and use '.' for decimals";
+  if (!/^\d*\.?\d*$/.test(value) || !/\d/.test(value)) return 'Amount must be a number';
+
+  const fraction = value.split('.')[1] || '';
+  if (fraction.length > decimals) {
+    return decimals === 0
+      ? 'This token does not support decimals'
+      : `Too many decimal places (max ${decimals})`;
+  }
+
+  if (toBaseUnits(value, decimals) > MAX_U64) return 'Amount is too large';
+
+  return null;
+}
+
+/**
+ * Parses a decimal string such as `"12.5"` into base units (`12500000000n` for
+ * 9 decimals). Throws with the validation message when the input is invalid.
+ */
+export function parseAmount(input: string, decimals: number): bigint {
+  const error = getAmountError(input, decimals);
+  if (error) throw new Error(error);
+  return toBaseUnits(input.trim(), decimals);
+}
+
+/** Like `parseAmount`, but returns `null` instead of throwing. */
+export function tryParseAmount(input: string, decimals: number): bigint | null {
+  return getAmountError(input, decimals) ? null : toBaseUnits(input.trim(), decimals);
+}
+
+interface FormatAmountOptions {
+  /** Truncate (never round up) the fraction to this many digits. */
+  maxFractionDigits?: number;
+  /** Group the integer part with commas. Defaults to `true`. */
+  grouping?: boolean;
+}
+
+/**
+ * Formats base units (as returned by the chain, usually a u64 string) as a
+ * decimal string, e.g. `formatAmount('1500000', 6)` -> `"1.5"`.
+ */
+export function formatAmount(
+  raw: bigint | string | number,
+  decimals: number,
+  { maxFractionDigits = decimals, grouping = true }: FormatAmountOptions = {}
+): string {
+  const value = BigInt(raw);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+
+  let integer = digits.slice(0, digits.length - decimals);
+  const fraction = digits
+    .slice(digits.length - decimals)
+    .slice(0, Math.min(maxFractionDigits, decimals))
+    .replace(/0+$/, '');
+
+  if (grouping) {
+    integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+
+  const formatted = fraction ? `${integer}.${fraction}` : integer;
+  return negative && formatted.replace(/[0.,]/g, '') ? `-${formatted}` : formatted;
+}
+
+function toBaseUnits(value: string, decimals: number): bigint {
+  const [integer = '', fraction = ''] = value.split('.');
+  return BigInt((integer || '0') + fraction.padEnd(decimals, '0'));
+}
@@ -0,0 +1,49 @@
+import { formatAmount } from './amount';
+import { isSuiCoinType, type CoinInfo } from './coinRegistry';
+
+// Rough upper bound for a ProtoPay PTB, in MIST (0.01 SUI)
+export const ESTIMATED_GAS_BUDGET = 10_000_000n;
+
+interface BalanceCheckInput {
+  coin: CoinInfo;
+  /** Amount of `coin` the transaction spends, in base units. */
+  required: bigint;
+  /** Wallet balance of `coin`, in base units. */
+  coinBalance: bigint;
+  /** Wallet SUI balance in MIST, used to cover gas. */
+  suiBalance: bigint;
+  gasBudget?: bigint;
+}
+
+/**
+ * Compares what a transaction needs against the wallet's balances and returns
+ * a shortfall message, or `null` when the wallet can cover it. For SUI the gas
+ * budget comes out of the same balance as the amount being sent.
+ */
+export function getBalanceShortfall({
+  coin,
+  required,
+  coinBalance,
+  suiBalance,
+  gasBudget = ESTIMATED_GAS_BUDGET,
+}: BalanceCheckInput): string | null {
+  const fmt = (value: bigint, decimals: number) => formatAmount(value, decimals, { maxFractionDigits: 4 });
+
+  if (isSuiCoinType(coin.coinType)) {
+    const total = required + gasBudget;
+    if (suiBalance >= total) return null;
+    return `Insufficient SUI: need ${fmt(total, coin.decimals)} (including ~${fmt(gasBudget, coin.decimals)} gas), ` +
+      `wallet has ${fmt(suiBalance, coin.decimals)}. Short by ${fmt(total - suiBalance, coin.decimals)} SUI.`;
+  }
+
+  if (coinBalance < required) {
+    return `Insufficient ${coin.symbol}: need ${fmt(required, coin.decimals)}, ` +
+      `wallet has ${fmt(coinBalance, coin.decimals)}. Short by ${fmt(required - coinBalance, coin.decimals)} ${coin.symbol}.`;
+  }
+
+  if (suiBalance < gasBudget) {
+    return `Insufficient SUI for gas: need ~${fmt(gasBudget, 9)} SUI, wallet has ${fmt(suiBalance, 9)}.`;
+  }
+
+  return null;
+}
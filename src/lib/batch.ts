@@ -0,0 +1,23 @@
+// Recipients per `batch::batch_send_token` call. Each address costs 32 bytes of
+// pure input and each transfer creates a coin object, so this stays well under
+// Sui's 16KB pure-argument and per-transaction object limits.
+export const MAX_RECIPIENTS_PER_TX = 200;
+
+// Time-locked batches issue one `escrow::lock_coin` call per recipient, so they
+// are chunked more conservatively to stay under the PTB command limit.
+export const MAX_ESCROWS_PER_TX = 100;
+
+// Service fee is 0.5% (50 BPS), with a minimum of one base unit
+export function calculateBatchFee(totalAmount: bigint): bigint {
+  const fee = (totalAmount * 50n) / 10000n;
+  return fee === 0n && totalAmount > 0n ? 1n : fee;
+}
+
+/** Splits a list of `length` items into consecutive `[start, end)` ranges of at most `size`. */
+export function chunkRanges(length: number, size = MAX_RECIPIENTS_PER_TX): Array<{ start: number; end: number }> {
+  const ranges = [];
+  for (let start = 0; start < length; start += size) {
+    ranges.push({ start, end: Math.min(start + size, length) });
+  }
+  return ranges;
+}
@@ -0,0 +1,88 @@
+import { normalizeCoinType } from './coinRegistry';
+import { parseAmount } from './amount';
+import type { RecipientRow } from './recipientImport';
+
+const STORAGE_KEY = 'sui-proto-batch-drafts';
+
+export type BatchChunkStatus = 'pending' | 'executing' | 'success' | 'failed';
+
+// One on-chain transaction covering recipients [start, end)
+export interface BatchChunk {
+  start: number;
+  end: number;
+  status: BatchChunkStatus;
+  digest?: string;
+  error?: string;
+}
+
+export type BatchDraftStatus = 'draft' | 'locked' | 'executed';
+
+export interface BatchDraft {
+  id: string;
+  coinType: string;
+  /** Raw text the recipient list was parsed from, kept so drafts can be edited. */
+  csvInput: string;
+  recipients: RecipientRow[];
+  /** `datetime-local` release time, or `null` for an immediate batch. */
+  unlockDate: string | null;
+  /** SHA-256 of the locked contents; set once the list is locked and never changed after. */
+  contentHash?: string;
+  lockedAt?: number;
+  /** Execution plan and results, including the digest of each transaction sent. */
+  chunks: BatchChunk[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export function getBatchDraftStatus(draft: Pick<BatchDraft, 'contentHash' | 'chunks'>): BatchDraftStatus {
+  if (!draft.contentHash) return 'draft';
+  const executed = draft.chunks.length > 0 && draft.chunks.every((chunk) => chunk.status === 'success');
+  return executed ? 'executed' : 'locked';
+}
+
+export function createBatchDraftId(): string {
+  return crypto.randomUUID();
+}
+
+/** Saved drafts, most recently updated first. */
+export function loadBatchDrafts(): BatchDraft[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const drafts: BatchDraft[] = saved ? JSON.parse(saved) : [];
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn('Could not read saved batch drafts:', error);
+    return [];
+  }
+}
+
+export function saveBatchDraft(draft: Omit<BatchDraft, 'updatedAt'>): void {
+  const drafts = loadBatchDrafts().filter((d) => d.id !== draft.id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([{ ...draft, updatedAt: Date.now() }, ...drafts]));
+}
+
+export function deleteBatchDraft(id: string): void {
+  const drafts = loadBatchDrafts().filter((d) => d.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+}
+
+/**
+ * Hashes exactly what will be sent: coin type, release time and each
+ * recipient's address and amount in base units, in order. Memos, formatting
+ * differences such as `1.50` vs `1.5` and address casing do not change the hash.
+ */
+export async function computeBatchHash(
+  draft: Pick<BatchDraft, 'coinType' | 'recipients' | 'unlockDate'>,
+  decimals: number
+): Promise<string> {
+  const canonical = JSON.stringify({
+    coinType: normalizeCoinType(draft.coinType),
+    unlockTime: draft.unlockDate ? new Date(draft.unlockDate).getTime() : null,
+    recipients: draft.recipients.map((r) => [
+      r.address.toLowerCase(),
+      parseAmount(r.amount, decimals).toString(),
+    ]),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return '0x' + Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
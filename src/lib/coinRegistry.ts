@@ -0,0 +1,111 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import suiLogo from '../assets/sui-logo.png';
+
+export const SUI_COIN_TYPE = '0x2::sui::SUI';
+export const USDC_COIN_TYPE = '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC'; // Testnet USDC
+
+// Always offered in token pickers, even when the wallet holds none
+export const DEFAULT_COIN_TYPES = [SUI_COIN_TYPE, USDC_COIN_TYPE];
+
+export interface CoinInfo {
+  coinType: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  iconUrl: string | null;
+}
+
+// Resolved metadata, keyed by normalized coin type
+const cache = new Map<string, CoinInfo>();
+// In-flight lookups, so concurrent callers share one RPC request
+const pending = new Map<string, Promise<CoinInfo>>();
+
+export function normalizeCoinType(coinType: string): string {
+  return normalizeStructTag(coinType.trim());
+}
+
+/** Syntactic check for a Move coin type such as `0x2::sui::SUI`. */
+export function isValidCoinType(coinType: string): boolean {
+  return /^0x[0-9a-fA-F]{1,64}::[A-Za-z_]\w*::[A-Za-z_]\w*(<.+>)?$/.test(coinType.trim());
+}
+
+export function isSuiCoinType(coinType: string): boolean {
+  try {
+    return normalizeCoinType(coinType) === normalizeCoinType(SUI_COIN_TYPE);
+  } catch {
+    return false;
+  }
+}
+
+/** Last path segment of a type, e.g. `USDC` for `0x...::usdc::USDC`. */
+export function coinSymbolFromType(coinType: string): string {
+  return coinType.replace(/<.*>$/, '').split('::').pop() || 'Unknown';
+}
+
+/** Synchronous lookup for metadata that has already been resolved. */
+export function getCachedCoinInfo(coinType: string): CoinInfo | undefined {
+  try {
+    return cache.get(normalizeCoinType(coinType));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves symbol, decimals, name and icon for a coin type from its on-chain
+ * `CoinMetadata`. Throws when the coin type has no metadata, since guessing the
+ * decimals would produce wrong amounts.
+ */
+export function getCoinInfo(client: SuiClient, coinType: string): Promise<CoinInfo> {
+  const key = normalizeCoinType(coinType);
+
+  const cached = cache.get(key);
+  if (cached) return Promise.resolve(cached);
+
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const request = client
+    .getCoinMetadata({ coinType: key })
+    .then((metadata) => {
+      if (!metadata) {
+        throw new Error(`No coin metadata found for ${coinType}`);
+      }
+
+      const info: CoinInfo = {
+        coinType: key,
+        symbol: metadata.symbol || coinSymbolFromType(key),
+        name: metadata.name || coinSymbolFromType(key),
+        decimals: metadata.decimals,
+        iconUrl: metadata.iconUrl || (isSuiCoinType(key) ? suiLogo : null),
+      };
+      cache.set(key, info);
+      return info;
+    })
+    .finally(() => {
+      pending.delete(key);
+    });
+
+  pending.set(key, request);
+  return request;
+}
+
+/**
+ * Resolves several coin types at once, keyed by the type string passed in.
+ * Types without metadata are left out of the result.
+ */
+export async function getCoinInfos(client: SuiClient, coinTypes: string[]): Promise<Map<string, CoinInfo>> {
+  const unique = [...new Set(coinTypes)];
+  const results = await Promise.allSettled(unique.map((coinType) => getCoinInfo(client, coinType)));
+
+  const infos = new Map<string, CoinInfo>();
+  results.forEach((result, idx) => {
+    if (result.status === 'fulfilled') {
+      infos.set(unique[idx], result.value);
+    } else {
+      console.warn(`Could not resolve coin metadata for ${unique[idx]}:`, result.reason);
+    }
+  });
+  return infos;
+}
@@ -0,0 +1,25 @@
+// Address book entries, kept in local storage only
+
+const STORAGE_KEY = 'sui-proto-contacts';
+
+export interface Contact {
+  id: string;
+  name: string;
+  address: string;
+  note?: string;
+  createdAt: string;
+}
+
+export function loadContacts(): Contact[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('Could not read saved contacts:', error);
+    return [];
+  }
+}
+
+export function storeContacts(contacts: Contact[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(contacts));
+}
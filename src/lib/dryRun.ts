@@ -0,0 +1,85 @@
+import type { SuiClient, ObjectOwner } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { getCoinInfos, type CoinInfo } from './coinRegistry';
+
+export interface PreviewBalanceChange {
+  owner: string;
+  coinType: string;
+  /** Signed change in base units; negative means the owner spends. */
+  amount: bigint;
+  coin?: CoinInfo;
+}
+
+export interface PreviewObjectChange {
+  objectId: string;
+  objectType: string;
+}
+
+export interface TransactionPreview {
+  success: boolean;
+  /** Raw execution error reported by the node, if any. */
+  error?: string;
+  /** Parsed Move abort location and code, when the error is a Move abort. */
+  abort?: { module: string; function?: string; code: string };
+  /** Net gas cost in MIST (computation + storage - rebate). */
+  gasCost: bigint;
+  balanceChanges: PreviewBalanceChange[];
+  created: PreviewObjectChange[];
+  deleted: PreviewObjectChange[];
+}
+
+const describeOwner = (owner: ObjectOwner): string => {
+  if (typeof owner === 'string') return owner;
+  if ('AddressOwner' in owner) return owner.AddressOwner;
+  if ('ObjectOwner' in owner) return owner.ObjectOwner;
+  if ('Shared' in owner) return 'Shared';
+  return 'Immutable';
+};
+
+// e.g. `MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("escrow") },
+// function: 3, instruction: 12, function_name: Some("claim_coin") }, 2) in command 1`
+const parseMoveAbort = (error: string): TransactionPreview['abort'] => {
+  if (!error.includes('MoveAbort')) return undefined;
+  const module = error.match(/name: Identifier\("(\w+)"\)/)?.[1] ?? 'unknown';
+  const fn = error.match(/function_name: Some\("(\w+)"\)/)?.[1];
+  const code = error.match(/},\s*(\d+)\)/)?.[1] ?? '?';
+  return { module, function: fn, code };
+};
+
+/**
+ * Builds `transaction` for `sender` and dry-runs it against the network without
+ * signing, summarising what would happen: balance changes, gas, objects created
+ * and deleted, and any Move abort.
+ */
+export async function simulateTransaction(
+  client: SuiClient,
+  transaction: Transaction,
+  sender: string
+): Promise<TransactionPreview> {
+  transaction.setSenderIfNotSet(sender);
+  const bytes = await transaction.build({ client });
+  const result = await client.dryRunTransactionBlock({ transactionBlock: bytes });
+
+  const coinInfos = await getCoinInfos(client, result.balanceChanges.map((c) => c.coinType));
+  const { computationCost, storageCost, storageRebate } = result.effects.gasUsed;
+  const error = result.effects.status.error ?? undefined;
+
+  return {
+    success: result.effects.status.status === 'success',
+    error,
+    abort: error ? parseMoveAbort(error) : undefined,
+    gasCost: BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate),
+    balanceChanges: result.balanceChanges.map((change) => ({
+      owner: describeOwner(change.owner),
+      coinType: change.coinType,
+      amount: BigInt(change.amount),
+      coin: coinInfos.get(change.coinType),
+    })),
+    created: result.objectChanges.flatMap((change) =>
+      change.type === 'created' ? [{ objectId: change.objectId, objectType: change.objectType }] : []
+    ),
+    deleted: result.objectChanges.flatMap((change) =>
+      change.type === 'deleted' ? [{ objectId: change.objectId, objectType: change.objectType }] : []
+    ),
+  };
+}
@@ -0,0 +1,201 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction, type TransactionObjectArgument } from '@mysten/sui/transactions';
+import { coinSymbolFromType, isSuiCoinType } from './coinRegistry';
+import { isValidRecipientAddress } from './recipientImport';
+
+// Shared Sui system clock object, read by the escrow module's time checks
+export const CLOCK_OBJECT_ID = '0x6';
+
+// Assets a single agreement can bundle; each is locked as its own escrow object
+export const MAX_BUNDLE_ASSETS = 10;
+
+/** What the escrow Move calls need to know about an escrow object. */
+export interface EscrowRef {
+  id: string;
+  /** Locked coin type, or the NFT's object type for NFT escrows. */
+  assetType: string;
+  paymentType: string;
+  isNft: boolean;
+  /** Unix ms after which the recipient may claim; 0 for approval-only escrows. */
+  unlockTime: number;
+  /** Unix ms after which an unclaimed escrow can be reclaimed by its creator; 0 for none. */
+  expiryTime: number;
+  /** Address that settles the escrow instead of the recipient claiming it, for arbiter escrows. */
+  arbiter?: string;
+}
+
+/** An escrow to claim, with the price its recipient pays in base units of `paymentType`. */
+export interface ClaimableEscrow extends EscrowRef {
+  price: bigint;
+}
+
+export function isEscrowExpired(escrow: Pick<EscrowRef, 'expiryTime'>, now = Date.now()): boolean {
+  return escrow.expiryTime > 0 && now >= escrow.expiryTime;
+}
+
+/** Validates an optional expiry against the unlock time (both Unix ms, 0 for unset). */
+export function getExpiryError(unlockTime: number, expiryTime: number, now = Date.now()): string | null {
+  if (!expiryTime) return null;
+  if (Number.isNaN(expiryTime) || expiryTime <= now) return 'Expiry must be in the future';
+  if (unlockTime && expiryTime <= unlockTime) return 'Expiry must be after the unlock time';
+  return null;
+}
+
+export type ClaimStatus = 'claimable' | 'locked' | 'expired' | 'arbiter';
+
+/**
+ * Whether the recipient can claim an escrow now: approval-only escrows at any
+ * time, time-locked ones once unlocked, neither after expiry. Arbiter escrows
+ * are settled rather than claimed.
+ */
+export function getClaimStatus(
+  escrow: Pick<EscrowRef, 'unlockTime' | 'expiryTime' | 'arbiter'>,
+  now = Date.now()
+): ClaimStatus {
+  if (escrow.arbiter) return 'arbiter';
+  if (isEscrowExpired(escrow, now)) return 'expired';
+  return now >= escrow.unlockTime ? 'claimable' : 'locked';
+}
+
+/** Validates an arbiter address, who must be a third party to the escrow. */
+export function getArbiterError(arbiter: string, creator: string, recipient: string): string | null {
+  if (!isValidRecipientAddress(arbiter)) return 'Enter a valid Sui address';
+  const self = arbiter.toLowerCase();
+  if (self === creator.toLowerCase()) return 'The arbiter cannot be you';
+  if (self === recipient.toLowerCase()) return 'The arbiter cannot be the receiver';
+  return null;
+}
+
+/** Compact countdown such as `3d 4h`, `5h 12m` or `12m`. */
+export function formatTimeRemaining(ms: number): string {
+  const minutes = Math.max(Math.ceil(ms / 60_000), 0);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Returns why the creator cannot cancel `escrow` right now, or `null` if they
+ * can. Approval-only escrows can be cancelled any time before they are
+ * claimed; time-locked escrows only until they unlock, after which the assets
+ * are the recipient's to claim until the escrow expires. Once expired, the
+ * creator can always reclaim. Arbiter escrows are never cancelled, only settled
+ * (see `getArbiterActions`). `escrow::cancel_coin`/`cancel_nft` enforce the
+ * same rules on-chain.
+ */
+export function getCancelBlockedReason(
+  escrow: Pick<EscrowRef, 'unlockTime' | 'expiryTime' | 'arbiter'>,
+  now = Date.now()
+): string | null {
+  if (escrow.arbiter) return 'Arbiter escrows can only be refunded by the arbiter or the receiver';
+  if (isEscrowExpired(escrow, now)) return null;
+  if (escrow.unlockTime > 0 && now >= escrow.unlockTime) {
+    return escrow.expiryTime > 0
+      ? `Unlocked: only the recipient can claim until it expires on ${new Date(escrow.expiryTime).toLocaleString()}`
+      : 'This escrow has unlocked and can only be claimed by the recipient';
+  }
+  return null;
+}
+
+export type ArbiterAction = 'release' | 'refund';
+
+/**
+ * What `viewer` may do with an arbiter escrow: the arbiter settles either way,
+ * while each party can only give up their own side, i.e. the creator can
+ * release to the recipient and the recipient can refund the creator.
+ */
+export function getArbiterActions(
+  escrow: { creator: string; recipient: string; arbiter?: string },
+  viewer: string
+): ArbiterAction[] {
+  if (!escrow.arbiter) return [];
+  const self = viewer.toLowerCase();
+  if (escrow.arbiter.toLowerCase() === self) return ['release', 'refund'];
+  if (escrow.creator.toLowerCase() === self) return ['release'];
+  if (escrow.recipient.toLowerCase() === self) return ['refund'];
+  return [];
+}
+
+/**
+ * Settles arbiter escrows, one call per escrow: `release` sends the assets to
+ * the recipient and `refund` returns them to the creator.
+ */
+export function buildArbiterSettlementTransaction(
+  packageId: string,
+  escrows: EscrowRef[],
+  action: ArbiterAction
+): Transaction {
+  const txb = new Transaction();
+  for (const escrow of escrows) {
+    txb.moveCall({
+      target: `${packageId}::escrow::${action}_${escrow.isNft ? 'nft' : 'coin'}`,
+      typeArguments: [escrow.assetType, escrow.paymentType],
+      arguments: [txb.object(escrow.id)],
+    });
+  }
+  return txb;
+}
+
+/**
+ * Builds the creator's cancel calls, one per escrow, which delete the escrows
+ * and return the locked coins or NFTs to the creator. A bundle, or the
+ * unclaimed escrows of a time-locked batch, are cancelled in one transaction
+ * so they are refunded as a whole.
+ */
+export function buildCancelEscrowTransaction(packageId: string, escrows: EscrowRef[]): Transaction {
+  const txb = new Transaction();
+  for (const escrow of escrows) {
+    txb.moveCall({
+      target: `${packageId}::escrow::${escrow.isNft ? 'cancel_nft' : 'cancel_coin'}`,
+      typeArguments: [escrow.assetType, escrow.paymentType],
+      arguments: [txb.object(escrow.id), txb.object(CLOCK_OBJECT_ID)],
+    });
+  }
+  return txb;
+}
+
+/**
+ * Builds one transaction claiming every escrow in `escrows`, so the assets of
+ * a bundle are released together. Each claim is paid with a coin split off
+ * for its own price (zero for unpriced escrows) from the claimer's SUI gas or,
+ * for other payment tokens, their merged coins of that type.
+ */
+export async function buildClaimEscrowTransaction(
+  client: SuiClient,
+  packageId: string,
+  owner: string,
+  escrows: ClaimableEscrow[]
+): Promise<Transaction> {
+  const txb = new Transaction();
+  const paymentSources = new Map<string, TransactionObjectArgument>();
+
+  const getPaymentSource = async (paymentType: string) => {
+    if (isSuiCoinType(paymentType)) return txb.gas;
+
+    const cached = paymentSources.get(paymentType);
+    if (cached) return cached;
+
+    const coins = await client.getCoins({ owner, coinType: paymentType });
+    if (coins.data.length === 0) {
+      throw new Error(`No ${coinSymbolFromType(paymentType)} coins found in wallet`);
+    }
+    const primaryCoin = txb.object(coins.data[0].coinObjectId);
+    if (coins.data.length > 1) {
+      txb.mergeCoins(primaryCoin, coins.data.slice(1).map((c) => txb.object(c.coinObjectId)));
+    }
+    paymentSources.set(paymentType, primaryCoin);
+    return primaryCoin;
+  };
+
+  for (const escrow of escrows) {
+    const [payment] = txb.splitCoins(await getPaymentSource(escrow.paymentType), [txb.pure.u64(escrow.price)]);
+    txb.moveCall({
+      target: `${packageId}::escrow::${escrow.isNft ? 'claim_nft' : 'claim_coin'}`,
+      typeArguments: [escrow.assetType, escrow.paymentType],
+      arguments: [txb.object(escrow.id), payment, txb.object(CLOCK_OBJECT_ID)],
+    });
+  }
+  return txb;
+}
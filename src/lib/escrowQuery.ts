@@ -0,0 +1,309 @@
+import type { SuiClient, SuiEvent, SuiObjectResponse } from '@mysten/sui/client';
+import { isMilestoneEscrowType, parseMilestoneEscrow, type MilestoneEscrow } from './milestones';
+
+/** Escrow fields in raw on-chain units, from either the object or its lock event. */
+export interface EscrowRecord {
+  id: string;
+  /** Locked coin type, or the NFT's object type for NFT escrows. */
+  assetType: string;
+  paymentType: string;
+  isNft: boolean;
+  /** Locked amount in base units; `'1'` for NFTs. */
+  amount: string;
+  /** Price in base units of `paymentType`; `'0'` when free to claim. */
+  price: string;
+  creator: string;
+  recipient: string;
+  unlockTime: number;
+  expiryTime: number;
+  nftId?: string;
+  /** Set for arbiter escrows, which the arbiter settles instead of the recipient claiming. */
+  arbiter?: string;
+  /** Unix ms of the lock transaction, when known. */
+  createdAt?: number;
+}
+
+/** How an escrow was closed: claimed or cancelled, or for arbiter escrows released or refunded. */
+export type ClosedEscrowState = 'claimed' | 'cancelled' | 'released' | 'refunded' | 'closed';
+
+export type EscrowLookup =
+  /** `bundle` holds the open escrows locked with this one for the same recipient, `record` included. */
+  | { state: 'active'; record: EscrowRecord; bundle: EscrowRecord[] }
+  /** Milestone escrows are never deleted, so their current state is always available. */
+  | { state: 'milestone'; escrow: MilestoneEscrow }
+  /** The object is gone; `digest` is the transaction that consumed it, when found. */
+  | { state: ClosedEscrowState; record?: EscrowRecord; digest?: string }
+  | { state: 'not-found' };
+
+// Pages of 50 events; older escrows than this are still found through their object
+const MAX_EVENT_PAGES = 20;
+
+/** Splits the top-level type arguments of `0x..::m::S<A, B<C>>` into `['A', 'B<C>']`. */
+export function splitTypeArguments(type: string): string[] {
+  const start = type.indexOf('<');
+  if (start === -1) return [];
+
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of type.slice(start + 1, -1)) {
+    if (char === '<') depth++;
+    if (char === '>') depth--;
+    if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  args.push(current.trim());
+  return args;
+}
+
+export function isEscrowLockEvent(event: SuiEvent, packageId: string): boolean {
+  return event.type.startsWith(`${packageId}::escrow::CoinLockEvent`) ||
+    event.type.startsWith(`${packageId}::escrow::NftLockEvent`);
+}
+
+interface LockEventData {
+  escrow_id: string;
+  creator: string;
+  recipient: string;
+  amount?: string;
+  price: string;
+  unlock_time: string;
+  expiry_time?: string;
+  nft_id?: string;
+  arbiter?: string;
+}
+
+export function parseLockEvent(event: SuiEvent): EscrowRecord {
+  const data = event.parsedJson as LockEventData;
+  const [assetType = 'Unknown', paymentType = 'Unknown'] = splitTypeArguments(event.type);
+  const isNft = event.type.includes('NftLockEvent');
+
+  return {
+    id: data.escrow_id,
+    assetType,
+    paymentType,
+    isNft,
+    amount: isNft ? '1' : String(data.amount),
+    price: String(data.price),
+    creator: data.creator,
+    recipient: data.recipient,
+    unlockTime: Number(data.unlock_time),
+    expiryTime: Number(data.expiry_time ?? 0),
+    nftId: isNft ? data.nft_id : undefined,
+    arbiter: data.arbiter || undefined,
+    createdAt: event.timestampMs ? Number(event.timestampMs) : undefined,
+  };
+}
+
+type MoveFields = Record<string, unknown>;
+
+const nestedFields = (value: unknown): MoveFields | undefined =>
+  value && typeof value === 'object' && 'fields' in value ? (value as { fields: MoveFields }).fields : undefined;
+
+// Reads an escrow straight from its object when its lock event is unavailable
+function parseEscrowObject(response: SuiObjectResponse): EscrowRecord | null {
+  const data = response.data;
+  if (data?.content?.dataType !== 'moveObject') return null;
+
+  const fields = data.content.fields as MoveFields;
+  const [assetType = 'Unknown', paymentType = 'Unknown'] = splitTypeArguments(data.content.type);
+  const nft = nestedFields(fields.nft);
+  const isNft = !!nft || /nft/i.test(data.content.type.split('<')[0]);
+  const coin = nestedFields(fields.coin);
+
+  return {
+    id: data.objectId,
+    assetType,
+    paymentType,
+    isNft,
+    amount: isNft ? '1' : String(fields.amount ?? fields.balance ?? coin?.balance ?? '0'),
+    price: String(fields.price ?? '0'),
+    creator: String(fields.creator),
+    recipient: String(fields.recipient),
+    unlockTime: Number(fields.unlock_time ?? 0),
+    expiryTime: Number(fields.expiry_time ?? 0),
+    nftId: isNft ? String(nestedFields(nft?.id)?.id ?? fields.nft_id ?? '') || undefined : undefined,
+    // `Option<address>`, which the RPC renders as the address or null
+    arbiter: typeof fields.arbiter === 'string' ? fields.arbiter : undefined,
+  };
+}
+
+async function findLockEvent(client: SuiClient, packageId: string, escrowId: string): Promise<EscrowRecord | null> {
+  let cursor: Parameters<SuiClient['queryEvents']>[0]['cursor'] = null;
+
+  for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+    const result = await client.queryEvents({
+      query: { MoveEventModule: { package: packageId, module: 'escrow' } },
+      order: 'descending',
+      limit: 50,
+      cursor,
+    });
+
+    const event = result.data.find((e) =>
+      isEscrowLockEvent(e, packageId) && (e.parsedJson as LockEventData).escrow_id === escrowId
+    );
+    if (event) return parseLockEvent(event);
+    if (!result.hasNextPage) break;
+    cursor = result.nextCursor;
+  }
+  return null;
+}
+
+/**
+ * Whether two escrows locked in the same transaction belong to one agreement,
+ * i.e. share creator, recipient and payment token. Time-locked batches also
+ * lock several escrows per transaction, but each for a different recipient.
+ */
+export function isSameBundle(
+  a: Pick<EscrowRecord, 'creator' | 'recipient' | 'paymentType'>,
+  b: Pick<EscrowRecord, 'creator' | 'recipient' | 'paymentType'>
+): boolean {
+  return a.creator.toLowerCase() === b.creator.toLowerCase() &&
+    a.recipient.toLowerCase() === b.recipient.toLowerCase() &&
+    a.paymentType === b.paymentType;
+}
+
+// Escrows of a bundle can still be claimed or cancelled one by one on-chain, so keep only the open ones
+async function findOpenBundle(client: SuiClient, record: EscrowRecord, lockEvents: SuiEvent[]): Promise<EscrowRecord[]> {
+  const siblings = lockEvents
+    .map((event) => ({ ...parseLockEvent(event), createdAt: record.createdAt }))
+    .filter((sibling) => isSameBundle(sibling, record));
+  if (siblings.length <= 1) return [record];
+
+  const objects = await client.multiGetObjects({ ids: siblings.map((sibling) => sibling.id) });
+  const open = new Set(objects.filter((obj) => obj.data).map((obj) => obj.data!.objectId));
+  return siblings.filter((sibling) => sibling.id === record.id || open.has(sibling.id));
+}
+
+// Finds the transaction that took the escrow as input and tells how it closed by the function it called
+export async function findClosingTransaction(
+  client: SuiClient,
+  escrowId: string
+): Promise<{ state: ClosedEscrowState; digest?: string }> {
+  try {
+    const result = await client.queryTransactionBlocks({
+      filter: { InputObject: escrowId },
+      options: { showInput: true },
+      order: 'descending',
+      limit: 5,
+    });
+
+    for (const tx of result.data) {
+      const kind = tx.transaction?.data.transaction;
+      if (kind?.kind !== 'ProgrammableTransaction') continue;
+
+      for (const command of kind.transactions) {
+        if (!('MoveCall' in command) || command.MoveCall.module !== 'escrow') continue;
+        if (command.MoveCall.function.startsWith('claim')) return { state: 'claimed', digest: tx.digest };
+        if (command.MoveCall.function.startsWith('cancel')) return { state: 'cancelled', digest: tx.digest };
+        if (command.MoveCall.function.startsWith('release')) return { state: 'released', digest: tx.digest };
+        if (command.MoveCall.function.startsWith('refund')) return { state: 'refunded', digest: tx.digest };
+      }
+    }
+  } catch (error) {
+    console.warn('Could not look up closing transaction:', error);
+  }
+  return { state: 'closed' };
+}
+
+/**
+ * Loads an escrow by object ID, whatever its age. Live escrows are read from
+ * the object (their previous transaction is the lock, whose event carries the
+ * full details, and those of any escrows bundled with it). For missing
+ * objects the lock event is searched page by page to tell an escrow that was
+ * claimed or cancelled from one that never existed.
+ */
+export async function fetchEscrow(client: SuiClient, packageId: string, escrowId: string): Promise<EscrowLookup> {
+  const object = await client.getObject({
+    id: escrowId,
+    options: { showType: true, showContent: true, showPreviousTransaction: true },
+  });
+
+  if (object.data) {
+    if (object.data.type && isMilestoneEscrowType(object.data.type, packageId)) {
+      const escrow = parseMilestoneEscrow(object);
+      return escrow ? { state: 'milestone', escrow } : { state: 'not-found' };
+    }
+    if (!object.data.type?.startsWith(`${packageId}::escrow::`)) return { state: 'not-found' };
+
+    // Escrows are never mutated, so the previous transaction is the one that created them
+    if (object.data.previousTransaction) {
+      const tx = await client.getTransactionBlock({
+        digest: object.data.previousTransaction,
+        options: { showEvents: true },
+      });
+      const lockEvents = tx.events?.filter((e) => isEscrowLockEvent(e, packageId)) ?? [];
+      const event = lockEvents.find((e) => (e.parsedJson as LockEventData).escrow_id === escrowId);
+      if (event) {
+        const record = { ...parseLockEvent(event), createdAt: Number(tx.timestampMs) || undefined };
+        return { state: 'active', record, bundle: await findOpenBundle(client, record, lockEvents) };
+      }
+    }
+
+    const record = parseEscrowObject(object);
+    return record ? { state: 'active', record, bundle: [record] } : { state: 'not-found' };
+  }
+
+  const record = await findLockEvent(client, packageId, escrowId);
+  if (!record && object.error?.code !== 'deleted') return { state: 'not-found' };
+
+  return { ...(await findClosingTransaction(client, escrowId)), record: record ?? undefined };
+}
+
+export type EventCursor = Parameters<SuiClient['queryEvents']>[0]['cursor'];
+
+export interface IncomingEscrowPage {
+  escrows: EscrowRecord[];
+  /** Where older escrow events continue; `null` once all have been scanned. */
+  nextCursor: EventCursor;
+}
+
+/**
+ * Open escrows addressed to `recipient` from the next `maxPages` pages of
+ * escrow events after `cursor`, newest first. Claimed and cancelled escrows
+ * are dropped by checking which objects still exist. Continue from
+ * `nextCursor` to reach older escrows.
+ */
+export async function fetchIncomingEscrows(
+  client: SuiClient,
+  packageId: string,
+  recipient: string,
+  cursor: EventCursor = null,
+  maxPages = 4
+): Promise<IncomingEscrowPage> {
+  const self = recipient.toLowerCase();
+  const records = new Map<string, EscrowRecord>();
+  let nextCursor: EventCursor = cursor;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await client.queryEvents({
+      query: { MoveEventModule: { package: packageId, module: 'escrow' } },
+      order: 'descending',
+      limit: 50,
+      cursor: nextCursor,
+    });
+
+    for (const event of result.data) {
+      if (!isEscrowLockEvent(event, packageId)) continue;
+      const record = parseLockEvent(event);
+      if (record.recipient.toLowerCase() === self && !records.has(record.id)) records.set(record.id, record);
+    }
+    nextCursor = result.hasNextPage ? result.nextCursor ?? null : null;
+    if (!nextCursor) break;
+  }
+
+  const ids = [...records.keys()];
+  const open = new Set<string>();
+  for (let i = 0; i < ids.length; i += 50) {
+    const objects = await client.multiGetObjects({ ids: ids.slice(i, i + 50) });
+    objects.forEach((obj) => obj.data && open.add(obj.data.objectId));
+  }
+  return {
+    escrows: [...records.values()].filter((record) => open.has(record.id)),
+    nextCursor,
+  };
+}
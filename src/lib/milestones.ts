@@ -0,0 +1,200 @@
+// Milestone escrows pay a coin amount out in parts: the creator approves each
+// milestone and the recipient claims approved ones once their unlock time has
+// passed. They live in the `milestone` module as shared `MilestoneEscrow<T>`
+// objects that are kept after the last claim, so their history stays readable.
+
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { Transaction, type TransactionObjectArgument } from '@mysten/sui/transactions';
+import { getAmountError, tryParseAmount } from './amount';
+import { CLOCK_OBJECT_ID } from './escrow';
+import type { EventCursor } from './escrowQuery';
+
+export const MAX_MILESTONES = 20;
+
+/** One row of the milestone editor. */
+export interface MilestoneInput {
+  amount: string;
+  /** `datetime-local` value, or empty for no unlock time. */
+  unlockDate: string;
+}
+
+export interface Milestone {
+  /** Base units of the escrow's coin. */
+  amount: bigint;
+  /** Unix ms before which an approved milestone cannot be claimed; 0 for none. */
+  unlockTime: number;
+  approved: boolean;
+  claimed: boolean;
+}
+
+export interface MilestoneEscrow {
+  id: string;
+  coinType: string;
+  creator: string;
+  recipient: string;
+  milestones: Milestone[];
+}
+
+export type MilestoneStatus = 'pending' | 'approved' | 'claimable' | 'claimed';
+
+export function getMilestoneStatus(milestone: Milestone, now = Date.now()): MilestoneStatus {
+  if (milestone.claimed) return 'claimed';
+  if (!milestone.approved) return 'pending';
+  return now >= milestone.unlockTime ? 'claimable' : 'approved';
+}
+
+/** Totals in base units; `locked` is everything not yet claimed, approved or not. */
+export function summarizeMilestones(escrow: MilestoneEscrow, now = Date.now()) {
+  const sum = (milestones: Milestone[]) => milestones.reduce((total, m) => total + m.amount, 0n);
+  const total = sum(escrow.milestones);
+  const claimed = sum(escrow.milestones.filter((m) => m.claimed));
+
+  return {
+    total,
+    claimed,
+    locked: total - claimed,
+    claimable: sum(escrow.milestones.filter((m) => getMilestoneStatus(m, now) === 'claimable')),
+    completed: escrow.milestones.every((m) => m.claimed),
+  };
+}
+
+/** Returns the problem with each editor row (or `null`), aligned with `inputs`. */
+export function getMilestoneErrors(inputs: MilestoneInput[], decimals: number, now = Date.now()): Array<string | null> {
+  return inputs.map((input) => {
+    if (!input.amount) return 'Enter an amount';
+    const amountError = getAmountError(input.amount, decimals);
+    if (amountError) return amountError;
+    if (tryParseAmount(input.amount, decimals) === 0n) return 'Amount must be greater than zero';
+    if (input.unlockDate && new Date(input.unlockDate).getTime() <= now) return 'Unlock time must be in the future';
+    return null;
+  });
+}
+
+export function isMilestoneEscrowType(type: string, packageId: string): boolean {
+  return type.startsWith(`${packageId}::milestone::MilestoneEscrow<`);
+}
+
+type MoveFields = Record<string, unknown>;
+
+const fieldsOf = (value: unknown): MoveFields =>
+  value && typeof value === 'object' && 'fields' in value ? (value as { fields: MoveFields }).fields : (value as MoveFields);
+
+export function parseMilestoneEscrow(response: SuiObjectResponse): MilestoneEscrow | null {
+  const data = response.data;
+  if (data?.content?.dataType !== 'moveObject') return null;
+
+  const { type } = data.content;
+  const fields = data.content.fields as MoveFields;
+  const milestones = (fields.milestones as unknown[] | undefined) ?? [];
+
+  return {
+    id: data.objectId,
+    coinType: type.slice(type.indexOf('<') + 1, -1),
+    creator: String(fields.creator),
+    recipient: String(fields.recipient),
+    milestones: milestones.map((value) => {
+      const milestone = fieldsOf(value);
+      return {
+        amount: BigInt(String(milestone.amount)),
+        unlockTime: Number(milestone.unlock_time ?? 0),
+        approved: !!milestone.approved,
+        claimed: !!milestone.claimed,
+      };
+    }),
+  };
+}
+
+export interface MilestoneEscrowPage {
+  escrows: MilestoneEscrow[];
+  /** Where older milestone lock events continue; `null` once all have been scanned. */
+  nextCursor: EventCursor;
+}
+
+/**
+ * Milestone escrows the wallet created or receives, from the next `maxPages`
+ * pages of milestone lock events after `cursor`, newest first. Locks of every
+ * wallet are scanned, so continue from `nextCursor` to reach older escrows.
+ * State is read from the objects, since approvals and claims change it.
+ */
+export async function fetchMilestoneEscrows(
+  client: SuiClient,
+  packageId: string,
+  owner: string,
+  cursor: EventCursor = null,
+  maxPages = 4
+): Promise<MilestoneEscrowPage> {
+  const self = owner.toLowerCase();
+  const ids = new Set<string>();
+  let nextCursor: EventCursor = cursor;
+
+  for (let page = 0; page < maxPages; page++) {
+    const events = await client.queryEvents({
+      query: { MoveEventType: `${packageId}::milestone::MilestoneLockEvent` },
+      order: 'descending',
+      limit: 50,
+      cursor: nextCursor,
+    });
+
+    events.data
+      .map((event) => event.parsedJson as { escrow_id: string; creator: string; recipient: string })
+      .filter((data) => data.creator.toLowerCase() === self || data.recipient.toLowerCase() === self)
+      .forEach((data) => ids.add(data.escrow_id));
+
+    nextCursor = events.hasNextPage ? events.nextCursor ?? null : null;
+    if (!nextCursor) break;
+  }
+
+  const escrowIds = [...ids];
+  const escrows: MilestoneEscrow[] = [];
+  for (let i = 0; i < escrowIds.length; i += 50) {
+    const objects = await client.multiGetObjects({ ids: escrowIds.slice(i, i + 50), options: { showContent: true } });
+    objects.forEach((object) => {
+      const escrow = parseMilestoneEscrow(object);
+      if (escrow) escrows.push(escrow);
+    });
+  }
+  return { escrows, nextCursor };
+}
+
+/** Adds the lock call for a milestone escrow funded by `coin`, whose value must equal the milestones' total. */
+export function addLockMilestonesCall(
+  txb: Transaction,
+  packageId: string,
+  coinType: string,
+  coin: TransactionObjectArgument,
+  recipient: string,
+  milestones: Array<Pick<Milestone, 'amount' | 'unlockTime'>>
+): void {
+  txb.moveCall({
+    target: `${packageId}::milestone::lock`,
+    typeArguments: [coinType],
+    arguments: [
+      coin,
+      txb.pure.address(recipient),
+      txb.pure.vector('u64', milestones.map((m) => m.amount)),
+      txb.pure.vector('u64', milestones.map((m) => m.unlockTime)),
+    ],
+  });
+}
+
+/** The creator's approval of milestone `index`, which releases it to the recipient. */
+export function buildApproveMilestoneTransaction(packageId: string, escrow: MilestoneEscrow, index: number): Transaction {
+  const txb = new Transaction();
+  txb.moveCall({
+    target: `${packageId}::milestone::approve`,
+    typeArguments: [escrow.coinType],
+    arguments: [txb.object(escrow.id), txb.pure.u64(index)],
+  });
+  return txb;
+}
+
+/** The recipient's claim, which pays out every approved and unlocked milestone not yet claimed. */
+export function buildClaimMilestonesTransaction(packageId: string, escrow: MilestoneEscrow): Transaction {
+  const txb = new Transaction();
+  txb.moveCall({
+    target: `${packageId}::milestone::claim`,
+    typeArguments: [escrow.coinType],
+    arguments: [txb.object(escrow.id), txb.object(CLOCK_OBJECT_ID)],
+  });
+  return txb;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getSafeMediaUrl, renderDisplay } from './nfts';
+
+const fields = {
+  id: { id: '0xabc' },
+  name: 'Capy #7',
+  level: 3,
+  image: { type: '0x2::url::Url', fields: { url: 'https://example.com/7.png' } },
+  attributes: { type: '0x1::m::Attributes', fields: { color: 'blue' } },
+};
+
+describe('renderDisplay', () => {
+  it('substitutes fields into templates', () => {
+    expect(renderDisplay({ name: '{name} (level {level})', id: '{id}' }, fields)).toEqual({
+      name: 'Capy #7 (level 3)',
+      id: '0xabc',
+    });
+  });
+
+  it('reads nested struct fields by path', () => {
+    expect(renderDisplay({ image_url: '{image}', description: 'A {attributes.color} capy' }, fields)).toEqual({
+      image_url: 'https://example.com/7.png',
+      description: 'A blue capy',
+    });
+  });
+
+  it('keeps escaped braces and plain text', () => {
+    expect(renderDisplay({ name: '\\{name\\}', project_url: 'https://example.com' }, fields)).toEqual({
+      name: '{name}',
+      project_url: 'https://example.com',
+    });
+  });
+
+  it('renders templates with missing fields as null', () => {
+    expect(renderDisplay({ name: '{name}', description: '{missing.path}' }, fields)).toEqual({
+      name: 'Capy #7',
+      description: null,
+    });
+  });
+});
+
+describe('getSafeMediaUrl', () => {
+  it('routes IPFS through the gateway and drops unsafe schemes', () => {
+    expect(getSafeMediaUrl('ipfs://ipfs/Qm123')).toBe('https://ipfs.io/ipfs/Qm123');
+    expect(getSafeMediaUrl('http://example.com/a.png')).toBeNull();
+    expect(getSafeMediaUrl('javascript:alert(1)')).toBeNull();
+    expect(getSafeMediaUrl(' https://example.com/a.png ')).toBe('https://example.com/a.png');
+  });
+});
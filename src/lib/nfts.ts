@@ -0,0 +1,255 @@
+// NFTs are the wallet's owned objects that are not coins. Names, images and
+// collections come from the type's Sui Display, when one is registered.
+
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { coinSymbolFromType } from './coinRegistry';
+
+export const NFT_PAGE_SIZE = 24;
+
+const COIN_STRUCT = '0x2::coin::Coin';
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+export interface NftInfo {
+  objectId: string;
+  /** Full Move type, the `T` of `escrow::lock_nft<T, P>`. */
+  type: string;
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  /** Display `collection`, or the struct name when the type has none. */
+  collection: string;
+  link: string | null;
+  /** Only objects with `store` can be moved into an escrow. */
+  transferable: boolean;
+  hasDisplay: boolean;
+}
+
+export interface NftPage {
+  nfts: NftInfo[];
+  nextCursor: string | null;
+}
+
+type MoveFields = Record<string, unknown>;
+
+const stringField = (fields: MoveFields, ...names: string[]): string | null => {
+  for (const name of names) {
+    const value = fields[name];
+    if (typeof value === 'string' && value) return value;
+    // `Url` and `String` fields may be rendered as their inner struct
+    if (value && typeof value === 'object' && 'fields' in value) {
+      const inner = (value as { fields: MoveFields }).fields;
+      if (typeof inner.url === 'string') return inner.url;
+      if (typeof inner.bytes === 'string') return inner.bytes;
+    }
+  }
+  return null;
+};
+
+export function isCoinObjectType(type: string): boolean {
+  return /^0x0*2::coin::Coin</.test(type);
+}
+
+/**
+ * Normalizes a Display URL for use as an `<img>` or link target: IPFS URLs go
+ * through a public gateway, and anything but https (or inline images) is
+ * dropped, since Display values are set by arbitrary package authors.
+ */
+export function getSafeMediaUrl(url: string | null | undefined): string | null {
+  const value = url?.trim();
+  if (!value) return null;
+  if (value.startsWith('ipfs://')) return IPFS_GATEWAY + value.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  if (/^data:image\/(png|jpe?g|gif|webp|avif);/i.test(value)) return value;
+
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'https:' ? parsed.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The NFT fields shown in the app, from a rendered Display (or a stand-in for one). */
+function toNftInfo(
+  objectId: string,
+  type: string,
+  display: Record<string, string | null | undefined> | null,
+  transferable: boolean,
+  hasDisplay = !!display
+): NftInfo {
+  return {
+    objectId,
+    type,
+    name: display?.name || `${coinSymbolFromType(type)} ${objectId.slice(0, 8)}...`,
+    description: display?.description || null,
+    imageUrl: getSafeMediaUrl(display?.image_url),
+    collection: display?.collection || display?.collection_name || coinSymbolFromType(type),
+    link: getSafeMediaUrl(display?.link ?? display?.project_url),
+    transferable,
+    hasDisplay,
+  };
+}
+
+/** Reads an owned object as an NFT; `null` for coins and non-Move objects. */
+export function parseNft(response: SuiObjectResponse): NftInfo | null {
+  const data = response.data;
+  if (!data?.type || data.content?.dataType !== 'moveObject' || isCoinObjectType(data.type)) return null;
+  return toNftInfo(data.objectId, data.type, data.display?.data ?? null, data.content.hasPublicTransfer);
+}
+
+/** One page of the wallet's NFTs, optionally limited to a single Move type. */
+export async function fetchOwnedNfts(
+  client: SuiClient,
+  owner: string,
+  { type, cursor }: { type?: string | null; cursor?: string | null } = {}
+): Promise<NftPage> {
+  const page = await client.getOwnedObjects({
+    owner,
+    filter: type ? { StructType: type } : { MatchNone: [{ StructType: COIN_STRUCT }] },
+    options: { showType: true, showContent: true, showDisplay: true },
+    cursor,
+    limit: NFT_PAGE_SIZE,
+  });
+
+  return {
+    nfts: page.data.map(parseNft).filter((nft): nft is NftInfo => nft !== null),
+    nextCursor: page.hasNextPage ? page.nextCursor ?? null : null,
+  };
+}
+
+/**
+ * Loads an NFT for `escrow::lock_nft`, throwing when the wallet cannot lock it:
+ * the object must exist, be a non-coin owned by `owner`, and have `store`.
+ */
+export async function fetchNftForLock(client: SuiClient, objectId: string, owner: string): Promise<NftInfo> {
+  const response = await client.getObject({
+    id: objectId,
+    options: { showType: true, showContent: true, showDisplay: true, showOwner: true },
+  });
+  if (!response.data) throw new Error(`NFT ${objectId} not found`);
+
+  const nft = parseNft(response);
+  if (!nft) throw new Error(`Object ${objectId} is not an NFT`);
+
+  const objectOwner = response.data.owner;
+  const isOwned = !!objectOwner && typeof objectOwner === 'object' && 'AddressOwner' in objectOwner
+    && objectOwner.AddressOwner.toLowerCase() === owner.toLowerCase();
+  if (!isOwned) throw new Error(`${nft.name} is not owned by your wallet`);
+  if (!nft.transferable) throw new Error(`${nft.name} cannot be transferred, so it cannot be locked in escrow`);
+
+  return nft;
+}
+
+/** Reads a field by its dotted Display path, descending into nested structs. */
+const resolveFieldPath = (fields: MoveFields, path: string): string | null => {
+  let value: unknown = fields;
+  for (const name of path.split('.')) {
+    if (value && typeof value === 'object' && 'fields' in value && !(name in value)) {
+      value = (value as { fields: MoveFields }).fields;
+    }
+    if (!value || typeof value !== 'object') return null;
+    value = (value as MoveFields)[name];
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+  // `UID` fields are rendered as `{ id }`
+  if (value && typeof value === 'object' && typeof (value as MoveFields).id === 'string') return (value as MoveFields).id as string;
+  return value && typeof value === 'object' ? stringField({ value: value as MoveFields }, 'value') : null;
+};
+
+/**
+ * Renders Display templates against an object's fields the way the fullnode
+ * does: `{path}` is replaced by that field, and `\{` and `\}` are literal
+ * braces. A template that references a missing field renders as `null`.
+ */
+export function renderDisplay(templates: Record<string, string>, fields: MoveFields): Record<string, string | null> {
+  const rendered: Record<string, string | null> = {};
+  for (const [key, template] of Object.entries(templates)) {
+    let missing = false;
+    const value = template.replace(/\\([{}])|\{([^{}]*)\}/g, (_, literal: string | undefined, path: string | undefined) => {
+      if (literal) return literal;
+      const resolved = resolveFieldPath(fields, path!.trim());
+      if (resolved === null) missing = true;
+      return resolved ?? '';
+    });
+    rendered[key] = missing ? null : value;
+  }
+  return rendered;
+}
+
+/** Reads a `VecMap<String, String>` of Display templates from event or object JSON. */
+const parseDisplayTemplates = (vecMap: unknown): Record<string, string> | null => {
+  const map = vecMap && typeof vecMap === 'object' && 'fields' in vecMap ? (vecMap as { fields: unknown }).fields : vecMap;
+  const contents = (map as { contents?: unknown } | null)?.contents;
+  if (!Array.isArray(contents)) return null;
+
+  const templates: Record<string, string> = {};
+  for (const entry of contents) {
+    const { key, value } = (entry?.fields ?? entry) as { key?: unknown; value?: unknown };
+    if (typeof key === 'string' && typeof value === 'string') templates[key] = value;
+  }
+  return templates;
+};
+
+/**
+ * The Display templates registered for `type`. Fullnodes render the fields
+ * from the latest `VersionUpdated<T>` event; a Display that was created but
+ * never versioned is read from its object instead. `null` when the type has
+ * no Display.
+ */
+async function fetchDisplayTemplates(client: SuiClient, type: string): Promise<Record<string, string> | null> {
+  const structTag = normalizeStructTag(type);
+  const versions = await client.queryEvents({
+    query: { MoveEventType: `0x2::display::VersionUpdated<${structTag}>` },
+    order: 'descending',
+    limit: 1,
+  });
+  const latest = versions.data[0]?.parsedJson as { fields?: unknown } | undefined;
+  if (latest) return parseDisplayTemplates(latest.fields);
+
+  const created = await client.queryEvents({
+    query: { MoveEventType: `0x2::display::DisplayCreated<${structTag}>` },
+    limit: 1,
+  });
+  const displayId = (created.data[0]?.parsedJson as { id?: string } | undefined)?.id;
+  if (!displayId) return null;
+
+  const display = await client.getObject({ id: displayId, options: { showContent: true } });
+  if (display.data?.content?.dataType !== 'moveObject') return null;
+  return parseDisplayTemplates((display.data.content.fields as MoveFields).fields);
+}
+
+/**
+ * Preview of an NFT held in an escrow. Escrows wrap the NFT, which hides it
+ * from `getObject`, so its Display is not rendered by the node; the type's
+ * Display templates are looked up and rendered against the wrapped object's
+ * fields instead. Types without a Display fall back to fields that look like
+ * a name, description and image. `null` when neither is available.
+ */
+export async function fetchEscrowedNft(client: SuiClient, nftId: string, escrowId?: string): Promise<NftInfo | null> {
+  const response = await client.getObject({
+    id: nftId,
+    options: { showType: true, showContent: true, showDisplay: true },
+  });
+  const direct = parseNft(response);
+  if (direct || !escrowId) return direct;
+
+  const escrow = await client.getObject({ id: escrowId, options: { showContent: true } });
+  if (escrow.data?.content?.dataType !== 'moveObject') return null;
+  const wrapped = (escrow.data.content.fields as MoveFields).nft;
+  if (!wrapped || typeof wrapped !== 'object' || !('fields' in wrapped)) return null;
+
+  const { type, fields } = wrapped as { type: string; fields: MoveFields };
+  const templates = await fetchDisplayTemplates(client, type).catch((error) => {
+    console.warn(`Could not load the Display for ${type}:`, error);
+    return null;
+  });
+  if (templates) return toNftInfo(nftId, type, renderDisplay(templates, fields), true, true);
+
+  return toNftInfo(nftId, type, {
+    name: stringField(fields, 'name'),
+    description: stringField(fields, 'description'),
+    image_url: stringField(fields, 'image_url', 'url', 'img_url', 'image'),
+    collection: stringField(fields, 'collection', 'collection_name'),
+    link: stringField(fields, 'link', 'project_url'),
+  }, true, false);
+}
@@ -0,0 +1,145 @@
+// Heuristic checks on a batch recipient list. Unlike the errors from
+// `getRecipientErrors`, these are warnings: the list can still be locked.
+
+import { formatAmount, tryParseAmount } from './amount';
+import type { Contact } from './contacts';
+import { isValidRecipientAddress, type RecipientRow } from './recipientImport';
+
+export type RecipientWarningKind = 'outlier' | 'self' | 'lookalike';
+
+export interface RecipientWarning {
+  kind: RecipientWarningKind;
+  message: string;
+}
+
+interface AnalyzeOptions {
+  decimals: number;
+  /** Connected wallet address. */
+  sender: string;
+  contacts: Contact[];
+}
+
+// An amount this many times above (or below) the median is flagged
+const OUTLIER_FACTOR = 10n;
+// Outliers are only meaningful once there is a list to compare against
+const MIN_ROWS_FOR_OUTLIERS = 4;
+// Lookalikes differ from a contact in at most this many characters...
+const MAX_LOOKALIKE_DIFF = 4;
+// ...or share this many leading and trailing hex characters, which is all most wallets display
+const POISONING_AFFIX_LENGTH = 4;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const countDifferences = (a: string, b: string) => {
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) diff++;
+  }
+  return diff;
+};
+
+const isLookalike = (address: string, contactAddress: string) => {
+  const diff = countDifferences(address, contactAddress);
+  if (diff === 0) return false;
+  const hex = address.slice(2);
+  const contactHex = contactAddress.slice(2);
+  const sameAffixes =
+    hex.slice(0, POISONING_AFFIX_LENGTH) === contactHex.slice(0, POISONING_AFFIX_LENGTH) &&
+    hex.slice(-POISONING_AFFIX_LENGTH) === contactHex.slice(-POISONING_AFFIX_LENGTH);
+  return diff <= MAX_LOOKALIKE_DIFF || sameAffixes;
+};
+
+const median = (values: bigint[]) => {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2n;
+};
+
+/**
+ * Flags rows worth a second look before locking, aligned with `rows`: amounts
+ * far from the list's median, the sender's own address, and addresses that
+ * nearly match a saved contact (a common address-poisoning trick).
+ */
+export function analyzeRecipients(
+  rows: RecipientRow[],
+  { decimals, sender, contacts }: AnalyzeOptions
+): RecipientWarning[][] {
+  const amounts = rows.map((row) => tryParseAmount(row.amount, decimals));
+  const positive = amounts.filter((a): a is bigint => a !== null && a > 0n);
+  const typical = positive.length >= MIN_ROWS_FOR_OUTLIERS ? median(positive) : null;
+
+  const self = sender.toLowerCase();
+  const knownContacts = contacts
+    .filter((contact) => isValidRecipientAddress(contact.address))
+    .map((contact) => ({ name: contact.name, address: contact.address.toLowerCase() }));
+  const knownAddresses = new Set(knownContacts.map((contact) => contact.address));
+
+  return rows.map((row, i) => {
+    const warnings: RecipientWarning[] = [];
+    const amount = amounts[i];
+    const address = row.address.toLowerCase();
+
+    if (typical && amount) {
+      if (amount > typical * OUTLIER_FACTOR) {
+        warnings.push({
+          kind: 'outlier',
+          message: `Amount is over ${OUTLIER_FACTOR}x the list median (${formatAmount(typical, decimals)})`,
+        });
+      } else if (amount * OUTLIER_FACTOR < typical) {
+        warnings.push({
+          kind: 'outlier',
+          message: `Amount is under 1/${OUTLIER_FACTOR} of the list median (${formatAmount(typical, decimals)})`,
+        });
+      }
+    }
+
+    if (!isValidRecipientAddress(row.address)) return warnings;
+
+    if (address === self) {
+      warnings.push({ kind: 'self', message: 'This is your own wallet address' });
+    }
+
+    if (!knownAddresses.has(address)) {
+      const lookalike = knownContacts.find((contact) => isLookalike(address, contact.address));
+      if (lookalike) {
+        warnings.push({
+          kind: 'lookalike',
+          message: `Looks like your contact "${lookalike.name}" (${shortAddress(lookalike.address)}) but is a ` +
+            'different address. Check it was not copied from a spoofed transaction.',
+        });
+      }
+    }
+
+    return warnings;
+  });
+}
+
+/** Whether any address appears on more than one row. */
+export function hasDuplicateRecipients(rows: RecipientRow[]): boolean {
+  const addresses = rows.map((row) => row.address.toLowerCase());
+  return new Set(addresses).size !== addresses.length;
+}
+
+/**
+ * Collapses rows with the same address into the first of them, summing the
+ * amounts and joining distinct memos. Addresses whose amounts do not all parse
+ * are left as they are so no value is silently dropped.
+ */
+export function mergeDuplicateRecipients(rows: RecipientRow[], decimals: number): RecipientRow[] {
+  const groups = new Map<string, RecipientRow[]>();
+  for (const row of rows) {
+    const key = row.address.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return rows.flatMap((row) => {
+    const group = groups.get(row.address.toLowerCase())!;
+    const amounts = group.map((r) => tryParseAmount(r.amount, decimals));
+    if (group.length === 1 || amounts.some((a) => a === null)) return [row];
+    if (group[0] !== row) return [];
+
+    const total = amounts.reduce<bigint>((sum, a) => sum + a!, 0n);
+    const memos = [...new Set(group.map((r) => r.memo).filter(Boolean))];
+    return [{ ...row, amount: formatAmount(total, decimals, { grouping: false }), memo: memos.join('; ') }];
+  });
+}
@@ -0,0 +1,191 @@
+// Parsing for batch recipient lists pasted or uploaded as CSV, TSV (e.g. copied
+// from a spreadsheet) or semicolon-separated exports.
+
+import { getAmountError, tryParseAmount } from './amount';
+
+export interface RecipientRow {
+  /** 1-based line in the source text, used in error messages. */
+  line: number;
+  address: string;
+  amount: string;
+  memo: string;
+}
+
+export type Delimiter = ',' | ';' | '\t';
+
+export interface RecipientImport {
+  rows: RecipientRow[];
+  delimiter: Delimiter;
+  hasHeader: boolean;
+}
+
+export const DELIMITER_NAMES: Record<Delimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+};
+
+// Tried in this order on ties, so `0x..;1,5` is read as semicolon-separated
+const DELIMITERS: Delimiter[] = ['\t', ';', ','];
+
+const ADDRESS_HEADER = /address|recipient|wallet|^to$/i;
+const AMOUNT_HEADER = /amount|value|qty|quantity|sum|total/i;
+const MEMO_HEADER = /memo|label|note|name|description|reference|comment/i;
+
+export function isValidRecipientAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(address);
+}
+
+const looksLikeAddress = (field: string) => /^0x[0-9a-fA-F]+$/.test(field);
+const looksLikeNumber = (field: string) => /^-?[\d.,\s']+$/.test(field) && /\d/.test(field);
+
+// Counts delimiter occurrences outside double quotes
+const countOutsideQuotes = (line: string, delimiter: Delimiter) => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+function detectDelimiter(text: string): Delimiter {
+  const sample = text.split(/\r\n|\n|\r/).filter((line) => line.trim()).slice(0, 20);
+  let best: Delimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const score = Math.min(...sample.map((line) => countOutsideQuotes(line, delimiter)));
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Splits delimited text into records, honouring quoted fields, `""` escapes and CR/LF/CRLF line endings. */
+function tokenize(text: string, delimiter: Delimiter): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field.trim());
+    if (fields.some((f) => f)) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+// `1.234,5` or `1,5` from European exports, where `,` is the decimal separator
+const normalizeDecimalComma = (amount: string) =>
+  /^\d{1,3}(\.\d{3})*,\d+$/.test(amount) || /^\d+,\d+$/.test(amount)
+    ? amount.replace(/\./g, '').replace(',', '.')
+    : amount;
+
+/**
+ * Parses recipient rows from delimited text. The delimiter and an optional
+ * header row are detected automatically; with a header, columns are matched by
+ * name (address/recipient, amount, memo/label), otherwise the first address-like
+ * column is the address, the next numeric one the amount and the next text one
+ * the memo. Blank lines are skipped and extra columns ignored.
+ */
+export function parseRecipients(text: string): RecipientImport {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const records = tokenize(input, delimiter);
+  if (records.length === 0) return { rows: [], delimiter, hasHeader: false };
+
+  const first = records[0].fields;
+  const hasHeader = !first.some(looksLikeAddress) && !first.some(looksLikeNumber);
+
+  let addressCol: number;
+  let amountCol: number;
+  let memoCol: number;
+
+  if (hasHeader) {
+    addressCol = first.findIndex((h) => ADDRESS_HEADER.test(h));
+    if (addressCol === -1) addressCol = 0;
+    amountCol = first.findIndex((h, i) => i !== addressCol && AMOUNT_HEADER.test(h));
+    if (amountCol === -1) amountCol = addressCol === 0 ? 1 : 0;
+    memoCol = first.findIndex((h, i) => i !== addressCol && i !== amountCol && MEMO_HEADER.test(h));
+  } else {
+    addressCol = Math.max(first.findIndex(looksLikeAddress), 0);
+    amountCol = first.findIndex((f, i) => i !== addressCol && looksLikeNumber(f));
+    if (amountCol === -1) amountCol = addressCol === 0 ? 1 : 0;
+    memoCol = first.findIndex((f, i) => i !== addressCol && i !== amountCol && !!f && !looksLikeNumber(f));
+  }
+
+  const rows = records.slice(hasHeader ? 1 : 0).map(({ line, fields }) => {
+    const amount = fields[amountCol] ?? '';
+    return {
+      line,
+      address: fields[addressCol] ?? '',
+      amount: delimiter === ';' ? normalizeDecimalComma(amount) : amount,
+      memo: memoCol === -1 ? '' : fields[memoCol] ?? '',
+    };
+  });
+
+  return { rows, delimiter, hasHeader };
+}
+
+/**
+ * Returns the problem with each row (or `null`), aligned with `rows`: a bad
+ * address, a bad or zero amount, or an address already listed on an earlier row.
+ */
+export function getRecipientErrors(rows: RecipientRow[], decimals: number): Array<string | null> {
+  const firstLineByAddress = new Map<string, number>();
+
+  return rows.map((row) => {
+    if (!isValidRecipientAddress(row.address)) {
+      return row.address ? 'Invalid address (expected 0x followed by 64 hex characters)' : 'Missing address';
+    }
+
+    const amountError = getAmountError(row.amount, decimals);
+    if (amountError) return amountError;
+    if (tryParseAmount(row.amount, decimals) === 0n) return 'Amount must be greater than zero';
+
+    const key = row.address.toLowerCase();
+    const firstLine = firstLineByAddress.get(key);
+    if (firstLine !== undefined) return `Duplicate of row ${firstLine}`;
+    firstLineByAddress.set(key, row.line);
+
+    return null;
+  });
+}
@@ -0,0 +1,44 @@
+// Maps the app's views to browser URLs so pages can be bookmarked, shared and
+// reached with back/forward. Static hosts must serve index.html for these paths.
+
+export type View = 'landing' | 'dashboard' | 'incoming' | 'batch-create' | 'escrow-create' | 'approval' | 'address-book';
+
+export interface Route {
+  view: View;
+  /** Escrow object ID, set for the `approval` view. */
+  escrowId?: string;
+}
+
+const ESCROW_PATH = /^\/escrow\/(0x[0-9a-fA-F]{1,64})$/;
+
+const STATIC_PATHS: Record<Exclude<View, 'approval'>, string> = {
+  landing: '/',
+  dashboard: '/dashboard',
+  incoming: '/incoming',
+  'batch-create': '/batch/new',
+  'escrow-create': '/escrow/new',
+  'address-book': '/contacts',
+};
+
+/** Reads a route from a pathname; unknown paths fall back to the landing page. */
+export function parseRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, '') || '/';
+
+  const escrow = ESCROW_PATH.exec(path);
+  if (escrow) return { view: 'approval', escrowId: escrow[1] };
+
+  const view = (Object.keys(STATIC_PATHS) as Array<keyof typeof STATIC_PATHS>).find(
+    (key) => STATIC_PATHS[key] === path
+  );
+  return { view: view ?? 'landing' };
+}
+
+export function routePath(route: Route): string {
+  if (route.view === 'approval') return `/escrow/${route.escrowId ?? ''}`;
+  return STATIC_PATHS[route.view];
+}
+
+/** Absolute link that opens an escrow's claim page, for sharing with its recipient. */
+export function getEscrowClaimUrl(escrowId: string): string {
+  return `${window.location.origin}${routePath({ view: 'approval', escrowId })}`;
+}